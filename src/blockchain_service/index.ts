@@ -17,8 +17,15 @@ import {
     Vec,
     CandidType,
     float64,
-    Opt
+    Opt,
+    nat,
+    Principal,
+    serialize
 } from 'azle/experimental';
+import { HttpResponse, HttpTransformArgs } from 'azle/experimental/canisters/management';
+import { ethers } from 'ethers';
+import { isRecord, RpcError, sendRPCBatch, toHexResult } from './rpc';
+import type { RpcCall, RpcOutcome, RpcTransport } from './rpc';
 
 /**
  * Candid type definitions for Blockchain Service
@@ -39,7 +46,7 @@ const TokenBalance = Record({
     symbol: text,
     name: text,
     address: text,
-    balance: text, // String to handle large numbers
+    balance: text, // Decimal string with decimals applied
     decimals: nat64,
     price: float64,
     value: float64 // USD value
@@ -49,19 +56,45 @@ const TokenBalance = Record({
 const WalletBalance = Record({
     address: text,
     chainId: nat64,
-    nativeBalance: text,
+    nativeBalance: text, // Decimal string with decimals applied
     nativeValue: float64,
     tokens: Vec(TokenBalance),
     totalValue: float64,
+    pricesAvailable: bool, // False when prices could not be read; prices and values are then 0
     lastUpdated: nat64
 });
 
+/** Balances of a portfolio on one chain */
+const ChainPortfolio = Record({
+    chainId: nat64,
+    name: text,
+    balances: Vec(WalletBalance), // USD values, one per address that could be read
+    subtotal: float64, // In the portfolio currency
+    error: Opt(text) // Set when some addresses or their prices could not be read on this chain
+});
+
+/** Balances of one or more addresses across all enabled networks */
+const Portfolio = Record({
+    addresses: Vec(text),
+    currency: text, // USD when the requested currency's rate could not be read
+    usdRate: float64, // Units of the currency per USD
+    chains: Vec(ChainPortfolio),
+    totalValue: float64, // In the portfolio currency
+    lastUpdated: nat64,
+    error: Opt(text) // Set when totals fell back to USD
+});
+
 /** Transaction data */
 const TransactionData = Record({
     hash: text,
     from: text,
     to: text,
-    value: text,
+    value: text, // Raw units of the native currency or token
+    amount: text, // Value with decimals applied
+    tokenAddress: Opt(text), // None for native transfers
+    symbol: text,
+    decimals: nat64,
+    direction: text, // in, out or self
     gasUsed: text,
     gasPrice: text,
     status: text,
@@ -70,24 +103,33 @@ const TransactionData = Record({
     chainId: nat64
 });
 
+/** One page of a wallet's transfer history */
+const TransactionPage = Record({
+    transactions: Vec(TransactionData),
+    nextCursor: Opt(text) // Pass to the next call; None when the chain start is reached
+});
+
 /** Transfer request */
 const TransferRequest = Record({
     from: text,
     to: text,
-    amount: text,
+    amount: text, // In native currency units, or in token units when tokenAddress is set
     tokenAddress: Opt(text), // None for native currency
     chainId: nat64,
     gasLimit: Opt(text),
-    gasPrice: Opt(text)
+    gasPrice: Opt(text), // Max fee per gas in wei for built transactions
+    signedTransaction: Opt(text) // Broadcast this payload; None to build an unsigned transaction
 });
 
 /** Transfer result */
 const TransferResult = Record({
-    success: bool,
+    success: bool, // True only once the transfer is mined and succeeded
+    status: text, // UNSIGNED, SUBMITTED, CONFIRMED or FAILED
     txHash: text,
     gasUsed: text,
     effectiveGasPrice: text,
-    message: text
+    message: text,
+    unsignedTransaction: text // Serialized EIP-1559 transaction to sign when status is UNSIGNED
 });
 
 /** Gas estimation */
@@ -100,6 +142,22 @@ const GasEstimate = Record({
     chainId: nat64
 });
 
+/** Token registered in the tokens canister */
+const RegisteredToken = Record({
+    id: nat,
+    name: text,
+    chain_id: nat,
+    decimals: nat,
+    logo: Opt(text),
+    address: text,
+    symbol: text
+});
+
+/** Interface of the tokens canister used by this service */
+const TokensCanister = Canister({
+    getTokensByChainId: query([nat], Vec(RegisteredToken))
+});
+
 /** Generic Result type for operations that can succeed or fail */
 const Result = <T extends CandidType>(type: T) => Variant({
     Ok: type,
@@ -120,10 +178,27 @@ let networks = new Map<string, any>();
 let balanceCache = new Map<string, any>();
 const BALANCE_CACHE_TTL = 30 * 1000; // 30 seconds
 
-/** Transaction cache */
+/** Tokens canister ID, from dfx or set by the owner */
+let tokensCanisterId: string | null = process.env.CANISTER_ID_TOKENS || null;
+
+/** USD price cache by price key */
+let priceCache = new Map<string, { price: number; timestamp: number }>();
+const PRICE_CACHE_TTL = 60 * 1000; // 1 minute
+
+/** Etherscan-compatible explorer APIs used for native transfer history, by chain ID */
+let explorerApis = new Map<string, { url: string; apiKey: string }>();
+
+/** Fiat exchange rates per USD */
+let fxCache: { rates: { [currency: string]: number }; timestamp: number } | null = null;
+const FX_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/** Transfer history cache by `tx_${address}_${chainId}_${fromBlock}_${toBlock}` */
 let transactionCache = new Map<string, any>();
 const TX_CACHE_TTL = 60 * 1000; // 1 minute
 
+/** Block range last scanned without error, by chain ID; RPCs limit eth_getLogs differently */
+let historyRangeSizes = new Map<number, number>();
+
 /**
  * Helper Functions
  */
@@ -172,21 +247,669 @@ function initializeDefaultNetworks() {
     }
 }
 
+/** Largest HTTPS outcall response accepted */
+const MAX_RESPONSE_BYTES = 2_000_000n;
+
+/** eth_blockNumber results are rounded down to a multiple of this, so replicas agree on the head */
+const HEAD_BLOCK_ROUNDING = 32n;
+
 /**
- * Simulate blockchain RPC call
+ * Route the next HTTPS outcall through transformHttpResponse
+ * Outcall options are global in Azle, so they are set before every request.
+ * @param kind - How the response body is normalized
+ * @param methods - JSON-RPC methods of an rpc batch, in id order
  */
-async function makeRPCCall(chainId: number, method: string, params: any[]): Promise<any> {
-    try {
-        // Placeholder for actual RPC calls
-        // In production, use ethers.js or similar library
-        return {
-            success: true,
-            data: {},
-            chainId
+function setOutcallTransform(kind: "rpc" | "price" | "fx" | "explorer", methods: string[] = []) {
+    ic.setOutgoingHttpOptions({
+        maxResponseBytes: MAX_RESPONSE_BYTES,
+        transformMethodName: "transformHttpResponse",
+        transformContext: new TextEncoder().encode(methods.length > 0 ? `${kind}:${methods.join(",")}` : kind)
+    });
+}
+
+/**
+ * Wait before a retry
+ * A canister cannot sleep inside a call, so the wait awaits management canister
+ * calls, each of which takes at least one consensus round.
+ * @param rounds - Number of rounds to wait
+ */
+async function backoff(rounds: number) {
+    for (let round = 0; round < rounds; round++) {
+        await fetch("icp://aaaaa-aa/raw_rand", { body: serialize({}) });
+    }
+}
+
+/** Sends JSON-RPC batches through HTTPS outcalls, retrying after consensus-round backoffs */
+const rpcTransport: RpcTransport = {
+    fetch: (url, init) => fetch(url, init),
+    prepareRequest: calls => setOutcallTransform("rpc", calls.map(call => call.method)),
+    wait: backoff
+};
+
+/**
+ * Make JSON-RPC calls to a network's RPC endpoint with sendRPCBatch
+ * @param chainId - The chain ID of a configured network
+ * @param calls - JSON-RPC methods and params
+ * @returns Outcomes in the order of the calls
+ */
+async function makeRPCBatch(chainId: number, calls: RpcCall[]): Promise<RpcOutcome[]> {
+    const network = networks.get(chainId.toString());
+    if (!network) {
+        throw new Error(`Unsupported network: ${chainId}`);
+    }
+    return sendRPCBatch(rpcTransport, network.rpcUrl, calls);
+}
+
+/**
+ * Make a JSON-RPC call to a network's RPC endpoint
+ * @param chainId - The chain ID of a configured network
+ * @param method - JSON-RPC method
+ * @param params - JSON-RPC params
+ * @returns The JSON-RPC result
+ * @throws RpcError if the call fails after retries
+ */
+async function makeRPCCall(chainId: number, method: string, params: unknown[]): Promise<unknown> {
+    const [outcome] = await makeRPCBatch(chainId, [{ method, params }]);
+    if (outcome.error) {
+        throw outcome.error;
+    }
+    return outcome.result;
+}
+
+/** Minimal ERC-20 ABI for balance reads and transfers */
+const ERC20_ABI = [
+    "function balanceOf(address owner) view returns (uint256)",
+    "function decimals() view returns (uint8)",
+    "function symbol() view returns (string)",
+    "function name() view returns (string)",
+    "function transfer(address to, uint256 amount) returns (bool)"
+];
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+/** DefiLlama price API, keyed by `${chain}:${tokenAddress}` or `coingecko:${id}` */
+const PRICE_API_URL = "https://coins.llama.fi/prices/current";
+
+/** Significant digits kept of prices and exchange rates, so replicas fetching moments apart agree */
+const PRICE_SIGNIFICANT_DIGITS = 4;
+
+/** Price keys of networks with market prices; other networks (e.g. testnets) are priced at 0 */
+const PRICE_CHAINS: { [chainId: number]: { chain: string; native: string } } = {
+    1: { chain: "ethereum", native: "coingecko:ethereum" },
+    137: { chain: "polygon", native: "coingecko:polygon-ecosystem-token" },
+    42161: { chain: "arbitrum", native: "coingecko:ethereum" },
+    534352: { chain: "scroll", native: "coingecko:ethereum" }
+};
+
+/** Exchange rate API with rates per USD */
+const FX_API_URL = "https://open.er-api.com/v6/latest/USD";
+
+/** Largest number of addresses in one portfolio request */
+const MAX_PORTFOLIO_ADDRESSES = 20;
+
+/** Block range of the first transfer history scan of a chain, and the largest range */
+const HISTORY_INITIAL_RANGE = 10_000;
+const MAX_HISTORY_RANGE = 1_000_000;
+
+/** Largest number of ranges scanned by one history page, including failed ones */
+const MAX_HISTORY_RANGES = 10;
+
+/** Explorer results requested per range; a full result means the range was too wide */
+const MAX_EXPLORER_RESULTS = 1000;
+
+/** Default and largest number of transfers in one history page */
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+/** A native or ERC-20 transfer of a wallet, before page enrichment */
+type HistoryItem = {
+    id: string; // Orders transfers within a block
+    hash: string;
+    from: string;
+    to: string;
+    value: string;
+    tokenAddress: string | null;
+    blockNumber: number;
+    timestamp: number | null; // Milliseconds; null until read from the block
+    gasUsed: string | null;
+    gasPrice: string | null;
+    status: string;
+};
+
+/** Fields of an eth_getLogs entry read by the transfer history */
+type RpcLog = {
+    address: string;
+    topics: string[];
+    data: string;
+    transactionHash: string;
+    logIndex: string;
+    blockNumber: string;
+};
+
+/**
+ * Check that an eth_getLogs entry has the fields the transfer history reads
+ * @param value - An entry of the eth_getLogs result
+ * @returns True if the entry is a well-formed log
+ */
+function isRpcLog(value: unknown): value is RpcLog {
+    return isRecord(value)
+        && Array.isArray(value.topics) && value.topics.every(topic => typeof topic === "string")
+        && ["address", "data", "transactionHash", "logIndex", "blockNumber"].every(field => typeof value[field] === "string");
+}
+
+/**
+ * Get registered tokens of a chain from the tokens canister
+ * @param chainId - The chain ID
+ * @returns Registered tokens, empty if the tokens canister is not configured
+ */
+async function getRegisteredTokens(chainId: number) {
+    if (!tokensCanisterId) {
+        return [];
+    }
+    const tokensCanister = TokensCanister(Principal.fromText(tokensCanisterId));
+    return await ic.call(tokensCanister.getTokensByChainId, { args: [BigInt(chainId)] });
+}
+
+/**
+ * Get USD prices, using cached prices when fresh
+ * Prices that the source does not know are reported as 0
+ * @param keys - Price keys
+ * @returns USD price by key
+ * @throws Error if the price API cannot be read
+ */
+async function getUsdPrices(keys: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    const missing: string[] = [];
+    for (const key of new Set(keys)) {
+        const cached = priceCache.get(key);
+        if (cached && (Date.now() - cached.timestamp) < PRICE_CACHE_TTL) {
+            prices.set(key, cached.price);
+        } else {
+            missing.push(key);
+        }
+    }
+
+    if (missing.length > 0) {
+        setOutcallTransform("price");
+        const response = await fetch(`${PRICE_API_URL}/${missing.join(",")}`);
+        if (!response.ok) {
+            throw new Error(`Price API returned HTTP ${response.status}`);
+        }
+        const { coins } = await response.json();
+        for (const key of missing) {
+            const price = Number(coins?.[key]?.price ?? coins?.[key.toLowerCase()]?.price ?? 0);
+            prices.set(key, price);
+            priceCache.set(key, { price, timestamp: Date.now() });
+        }
+    }
+    return prices;
+}
+
+/**
+ * Get the balance cache key of a wallet, the same for any casing of its address
+ * @param address - Wallet address
+ * @param chainId - Chain ID
+ * @returns The cache key
+ */
+function getBalanceCacheKey(address: string, chainId: number): string {
+    return `balance_${ethers.getAddress(address)}_${chainId}`;
+}
+
+/** A wallet balance in its Candid shape */
+type WalletBalanceData = {
+    address: string;
+    chainId: bigint;
+    nativeBalance: string;
+    nativeValue: number;
+    tokens: { symbol: string; name: string; address: string; balance: string; decimals: bigint; price: number; value: number }[];
+    totalValue: number;
+    pricesAvailable: boolean;
+    lastUpdated: bigint;
+};
+
+/**
+ * Load the balances of wallets on one chain, using the balance cache
+ * Uncached wallets share one registered-token lookup, one JSON-RPC batch and one
+ * price request. If prices cannot be read, balances are still returned with price
+ * and value 0 and pricesAvailable false, and are not cached so that the next call
+ * retries the prices.
+ * @param addresses - Wallet addresses
+ * @param chainId - Chain ID of a configured network
+ * @returns Per address, in order, its balance valued in USD or why it could not be read
+ * @throws Error if the registered tokens or the RPC batch cannot be read at all
+ */
+async function loadWalletBalances(addresses: string[], chainId: number): Promise<PromiseSettledResult<WalletBalanceData>[]> {
+    const results: PromiseSettledResult<WalletBalanceData>[] = new Array(addresses.length);
+    const uncached: number[] = [];
+    addresses.forEach((address, index) => {
+        const cached = balanceCache.get(getBalanceCacheKey(address, chainId));
+        if (cached && (Date.now() - cached.timestamp) < BALANCE_CACHE_TTL) {
+            results[index] = { status: "fulfilled", value: cached.data };
+        } else {
+            uncached.push(index);
+        }
+    });
+    if (uncached.length === 0) {
+        return results;
+    }
+
+    // Native balances and balances of the tokens registered for this chain, in one batch
+    const registeredTokens = await getRegisteredTokens(chainId);
+    const callsPerAddress = 1 + registeredTokens.length;
+    const outcomes = await makeRPCBatch(chainId, uncached.flatMap(index => [
+        { method: 'eth_getBalance', params: [addresses[index], 'latest'] },
+        ...registeredTokens.map(token => ({
+            method: 'eth_call',
+            params: [{ to: token.address, data: erc20Interface.encodeFunctionData("balanceOf", [addresses[index]]) }, 'latest']
+        }))
+    ]));
+
+    const holdings = [];
+    for (const [position, index] of uncached.entries()) {
+        const [nativeOutcome, ...tokenOutcomes] = outcomes.slice(position * callsPerAddress, (position + 1) * callsPerAddress);
+        try {
+            if (nativeOutcome.error) {
+                throw nativeOutcome.error;
+            }
+            const nativeBalance = BigInt(toHexResult(nativeOutcome.result, 'eth_getBalance'));
+            const heldTokens = registeredTokens
+                .map((token, tokenIndex) => {
+                    const outcome = tokenOutcomes[tokenIndex];
+                    // Reverting tokens and tokens not deployed on the chain count as empty
+                    if (outcome.error) {
+                        if (outcome.error.kind !== "EXECUTION_REVERTED") {
+                            throw outcome.error;
+                        }
+                        return { token, raw: 0n };
+                    }
+                    const data = toHexResult(outcome.result, 'eth_call');
+                    const raw = data === "0x" ? 0n : BigInt(erc20Interface.decodeFunctionResult("balanceOf", data)[0]);
+                    return { token, raw };
+                })
+                .filter(({ raw }) => raw > 0n);
+            holdings.push({ index, nativeBalance, heldTokens });
+        } catch (error) {
+            results[index] = { status: "rejected", reason: error };
+        }
+    }
+
+    // One price request for the native coin and every token held by any of the wallets
+    const priceChain = PRICE_CHAINS[chainId];
+    let prices = new Map<string, number>();
+    let pricesAvailable = true;
+    if (priceChain && holdings.length > 0) {
+        try {
+            prices = await getUsdPrices([
+                priceChain.native,
+                ...holdings.flatMap(({ heldTokens }) => heldTokens.map(({ token }) => `${priceChain.chain}:${token.address}`))
+            ]);
+        } catch {
+            pricesAvailable = false;
+        }
+    }
+
+    for (const { index, nativeBalance, heldTokens } of holdings) {
+        const nativeAmount = ethers.formatEther(nativeBalance);
+        const nativeValue = Number(nativeAmount) * (priceChain ? prices.get(priceChain.native) || 0 : 0);
+        const tokens = heldTokens.map(({ token, raw }) => {
+            const balance = ethers.formatUnits(raw, Number(token.decimals));
+            const price = priceChain ? prices.get(`${priceChain.chain}:${token.address}`) || 0 : 0;
+            return {
+                symbol: token.symbol,
+                name: token.name,
+                address: token.address,
+                balance,
+                decimals: BigInt(token.decimals),
+                price,
+                value: Number(balance) * price
+            };
+        });
+
+        const walletBalance: WalletBalanceData = {
+            address: addresses[index],
+            chainId: BigInt(chainId),
+            nativeBalance: nativeAmount,
+            nativeValue,
+            tokens,
+            totalValue: nativeValue + tokens.reduce((sum, token) => sum + token.value, 0),
+            pricesAvailable,
+            lastUpdated: BigInt(Date.now())
         };
+        results[index] = { status: "fulfilled", value: walletBalance };
+
+        // Cache the response
+        if (pricesAvailable) {
+            balanceCache.set(getBalanceCacheKey(addresses[index], chainId), {
+                data: walletBalance,
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Get the exchange rate from USD to a fiat currency, caching all rates
+ * Expired rates are kept while the exchange rate API cannot be read.
+ * @param currency - ISO 4217 code, e.g. EUR
+ * @returns Units of the currency per USD, or null if no rates could be read
+ * @throws Error if the currency is unknown
+ */
+async function getUsdRate(currency: string): Promise<number | null> {
+    if (currency === "USD") {
+        return 1;
+    }
+    if (!fxCache || (Date.now() - fxCache.timestamp) >= FX_CACHE_TTL) {
+        try {
+            setOutcallTransform("fx");
+            const response = await fetch(FX_API_URL);
+            if (!response.ok) {
+                throw new Error(`Exchange rate API returned HTTP ${response.status}`);
+            }
+            const { rates } = await response.json();
+            fxCache = { rates: rates || {}, timestamp: Date.now() };
+        } catch {
+            if (!fxCache) {
+                return null;
+            }
+        }
+    }
+
+    const rate = fxCache.rates[currency];
+    if (!rate) {
+        throw new Error(`Unsupported currency: ${currency}`);
+    }
+    return rate;
+}
+
+/**
+ * Get native transfers of a wallet in a block range from the chain's explorer API
+ * Includes external and internal transactions that move a nonzero value.
+ * Explorers cap their results, so a range with MAX_EXPLORER_RESULTS transactions is rejected.
+ * @param chainId - The chain ID
+ * @param address - Wallet address
+ * @param fromBlock - First block
+ * @param toBlock - Last block
+ * @returns Native transfers, empty if no explorer API is configured for the chain
+ * @throws Error if the explorer fails or the range holds too many transactions
+ */
+async function getNativeTransfers(chainId: number, address: string, fromBlock: number, toBlock: number): Promise<HistoryItem[]> {
+    const explorer = explorerApis.get(chainId.toString());
+    if (!explorer) {
+        return [];
+    }
+
+    const items: HistoryItem[] = [];
+    for (const action of ["txlist", "txlistinternal"]) {
+        const separator = explorer.url.includes("?") ? "&" : "?";
+        setOutcallTransform("explorer");
+        const response = await fetch(`${explorer.url}${separator}module=account&action=${action}&address=${address}&startblock=${fromBlock}&endblock=${toBlock}&page=1&offset=${MAX_EXPLORER_RESULTS}&sort=desc&apikey=${explorer.apiKey}`);
+        const payload = await response.json();
+        if (payload.status !== "1") {
+            if (Array.isArray(payload.result) && payload.result.length === 0) {
+                continue; // No transactions found
+            }
+            throw new Error(`Explorer API error: ${payload.result || payload.message}`);
+        }
+        if (payload.result.length >= MAX_EXPLORER_RESULTS) {
+            throw new Error(`Explorer returned ${payload.result.length} transactions for blocks ${fromBlock}-${toBlock}; narrow the range`);
+        }
+
+        for (const tx of payload.result) {
+            if (BigInt(tx.value) === 0n || !tx.to) {
+                continue;
+            }
+            items.push({
+                id: `${tx.hash}_${action === "txlist" ? "tx" : `trace_${tx.traceId}`}`,
+                hash: tx.hash,
+                from: ethers.getAddress(tx.from),
+                to: ethers.getAddress(tx.to),
+                value: tx.value,
+                tokenAddress: null,
+                blockNumber: Number(tx.blockNumber),
+                timestamp: Number(tx.timeStamp) * 1000,
+                gasUsed: tx.gasUsed ?? null,
+                gasPrice: tx.gasPrice ?? null,
+                status: tx.isError === "1" ? "failed" : "success"
+            });
+        }
+    }
+    return items;
+}
+
+/**
+ * Load the transfers of a wallet in a block range, using the transaction cache
+ * @param address - Checksummed wallet address
+ * @param chainId - The chain ID
+ * @param fromBlock - First block
+ * @param toBlock - Last block
+ * @param tokens - Registered token addresses of the chain
+ * @returns Transfers of the range in page order
+ * @throws Error if the node or explorer rejects the range
+ */
+async function loadHistoryRange(address: string, chainId: number, fromBlock: number, toBlock: number, tokens: string[]): Promise<HistoryItem[]> {
+    const cacheKey = `tx_${address}_${chainId}_${fromBlock}_${toBlock}`;
+    const cached = transactionCache.get(cacheKey);
+    if (cached && (Date.now() - cached.timestamp) < TX_CACHE_TTL) {
+        return cached.data;
+    }
+
+    const walletTopic = ethers.zeroPadValue(address, 32);
+    const range = { address: tokens, fromBlock: ethers.toQuantity(fromBlock), toBlock: ethers.toQuantity(toBlock) };
+
+    const items = new Map<string, HistoryItem>();
+    if (tokens.length > 0) {
+        const outcomes = await makeRPCBatch(chainId, [
+            { method: 'eth_getLogs', params: [{ ...range, topics: [TRANSFER_TOPIC, walletTopic] }] },
+            { method: 'eth_getLogs', params: [{ ...range, topics: [TRANSFER_TOPIC, null, walletTopic] }] }
+        ]);
+        for (const outcome of outcomes) {
+            if (outcome.error) {
+                throw outcome.error;
+            }
+            if (!Array.isArray(outcome.result)) {
+                throw new RpcError("RPC", "eth_getLogs returned a malformed result");
+            }
+            for (const log of outcome.result) {
+                if (!isRpcLog(log)) {
+                    throw new RpcError("RPC", "eth_getLogs returned a malformed log");
+                }
+                // ERC-721 Transfer has the token ID as a third indexed topic
+                if (log.topics.length !== 3) {
+                    continue;
+                }
+                const id = `${log.transactionHash}_log_${Number(log.logIndex)}`;
+                items.set(id, {
+                    id,
+                    hash: log.transactionHash,
+                    from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+                    to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+                    value: BigInt(log.data).toString(),
+                    tokenAddress: ethers.getAddress(log.address),
+                    blockNumber: Number(log.blockNumber),
+                    timestamp: null,
+                    gasUsed: null,
+                    gasPrice: null,
+                    status: "success"
+                });
+            }
+        }
+    }
+    for (const item of await getNativeTransfers(chainId, address, fromBlock, toBlock)) {
+        items.set(item.id, item);
+    }
+
+    const data = Array.from(items.values()).sort((a, b) => b.blockNumber - a.blockNumber || a.id.localeCompare(b.id));
+    transactionCache.set(cacheKey, {
+        data,
+        timestamp: Date.now()
+    });
+    return data;
+}
+
+/**
+ * Fill in block timestamps and gas fields of log-based transfers with batched reads
+ * @param chainId - The chain ID
+ * @param items - Transfers of a page
+ */
+async function enrichHistoryItems(chainId: number, items: HistoryItem[]) {
+    const blocks = Array.from(new Set(items.filter(item => item.timestamp === null).map(item => item.blockNumber)));
+    const hashes = Array.from(new Set(items.filter(item => item.gasUsed === null).map(item => item.hash)));
+    if (blocks.length === 0 && hashes.length === 0) {
+        return;
+    }
+
+    const outcomes = await makeRPCBatch(chainId, [
+        ...blocks.map(block => ({ method: 'eth_getBlockByNumber', params: [ethers.toQuantity(block), false] })),
+        ...hashes.map(hash => ({ method: 'eth_getTransactionReceipt', params: [hash] }))
+    ]);
+    // Blocks and receipts that could not be read leave their fields empty
+    const results = outcomes.map(outcome => isRecord(outcome.result) ? outcome.result : null);
+    const timestamps = new Map(blocks.map((block, index) => [block, results[index]?.timestamp]));
+    const receipts = new Map(hashes.map((hash, index) => [hash, results[blocks.length + index]]));
+
+    for (const item of items) {
+        const timestamp = timestamps.get(item.blockNumber);
+        if (item.timestamp === null && typeof timestamp === "string") {
+            item.timestamp = Number(timestamp) * 1000;
+        }
+        const receipt = receipts.get(item.hash);
+        if (item.gasUsed === null && receipt) {
+            item.gasUsed = BigInt(toHexResult(receipt.gasUsed, 'eth_getTransactionReceipt')).toString();
+            item.gasPrice = BigInt(toHexResult(receipt.effectiveGasPrice, 'eth_getTransactionReceipt')).toString();
+        }
+    }
+}
+
+/**
+ * Build the recipient, value and calldata of a transfer request
+ * @param request - Transfer request
+ * @returns Transaction fields; ERC-20 amounts use the token's on-chain decimals
+ */
+async function buildTransferCall(request: any): Promise<{ to: string; value: bigint; data: string }> {
+    const tokenAddress: string | undefined = request.tokenAddress?.Some;
+    if (!tokenAddress) {
+        return { to: ethers.getAddress(request.to), value: ethers.parseEther(request.amount), data: "0x" };
+    }
+
+    const decimals = await makeRPCCall(Number(request.chainId), 'eth_call', [
+        { to: tokenAddress, data: erc20Interface.encodeFunctionData("decimals") },
+        'latest'
+    ]);
+    const amount = ethers.parseUnits(request.amount, Number(erc20Interface.decodeFunctionResult("decimals", toHexResult(decimals, 'eth_call'))[0]));
+    return {
+        to: ethers.getAddress(tokenAddress),
+        value: 0n,
+        data: erc20Interface.encodeFunctionData("transfer", [request.to, amount])
+    };
+}
+
+/** Percentile of the priority fees paid in the fee history block used as the tip */
+const PRIORITY_FEE_PERCENTILE = 50;
+
+/**
+ * Build an unsigned EIP-1559 transaction for a transfer
+ * Replicas must read the same values, so the gas estimate and fees are read at the
+ * head rounded down by the rpc transform: the base fee is the one eth_feeHistory
+ * gives for the block after it, and the tip the median tip paid in it. The nonce is
+ * the sender's mined count, so transfers still pending must be mined or replaced first.
+ * The gas limit and the max fee (twice the base fee plus the tip) can be given instead.
+ * @param request - Transfer request
+ * @param call - Recipient, value and calldata from buildTransferCall
+ * @returns The unsigned transaction
+ */
+async function buildUnsignedTransfer(request: any, call: { to: string; value: bigint; data: string }): Promise<ethers.Transaction> {
+    const chainId = Number(request.chainId);
+    const head = toHexResult(await makeRPCCall(chainId, 'eth_blockNumber', []), 'eth_blockNumber');
+    const txCall = { from: request.from, to: call.to, value: ethers.toQuantity(call.value), data: call.data };
+    const [nonce, gasEstimate, feeHistory] = await makeRPCBatch(chainId, [
+        { method: 'eth_getTransactionCount', params: [request.from, 'latest'] },
+        { method: 'eth_estimateGas', params: [txCall, head] },
+        { method: 'eth_feeHistory', params: [ethers.toQuantity(1), head, [PRIORITY_FEE_PERCENTILE]] }
+    ]);
+
+    const gasLimit: string | undefined = request.gasLimit?.Some;
+    for (const outcome of [nonce, feeHistory, ...(gasLimit ? [] : [gasEstimate])]) {
+        if (outcome.error) {
+            throw outcome.error;
+        }
+    }
+    const history = isRecord(feeHistory.result) ? feeHistory.result : {};
+    const baseFees = Array.isArray(history.baseFeePerGas) ? history.baseFeePerGas : [];
+    const baseFee = baseFees.length > 0 ? BigInt(toHexResult(baseFees[baseFees.length - 1], 'eth_feeHistory')) : 0n;
+    if (baseFee === 0n) {
+        throw new Error("Network does not support EIP-1559 transactions");
+    }
+    const rewards = Array.isArray(history.reward) && Array.isArray(history.reward[0]) ? history.reward[0] : [];
+
+    const maxPriorityFeePerGas = rewards.length > 0 ? BigInt(toHexResult(rewards[0], 'eth_feeHistory')) : 0n;
+    const maxFeePerGas = request.gasPrice?.Some
+        ? BigInt(request.gasPrice.Some)
+        : baseFee * 2n + maxPriorityFeePerGas;
+
+    return ethers.Transaction.from({
+        type: 2,
+        chainId,
+        nonce: Number(toHexResult(nonce.result, 'eth_getTransactionCount')),
+        to: call.to,
+        value: call.value,
+        data: call.data,
+        gasLimit: gasLimit ? BigInt(gasLimit) : BigInt(toHexResult(gasEstimate.result, 'eth_estimateGas')),
+        maxFeePerGas,
+        maxPriorityFeePerGas: maxPriorityFeePerGas < maxFeePerGas ? maxPriorityFeePerGas : maxFeePerGas
+    });
+}
+
+/**
+ * Broadcast a signed transfer after checking it against the request
+ * @param request - Transfer request with signedTransaction
+ * @param call - Recipient, value and calldata from buildTransferCall
+ * @returns The transfer result, confirmed only if a successful receipt already exists
+ */
+async function broadcastSignedTransfer(request: any, call: { to: string; value: bigint; data: string }) {
+    const tx = ethers.Transaction.from(request.signedTransaction.Some);
+    if (!tx.isSigned()) {
+        throw new Error("Transaction is not signed");
+    }
+
+    const checks: [string, boolean][] = [
+        ["chainId", tx.chainId === BigInt(request.chainId)],
+        ["from", tx.from?.toLowerCase() === request.from.toLowerCase()],
+        ["to", tx.to?.toLowerCase() === call.to.toLowerCase()],
+        ["value", tx.value === call.value],
+        ["data", tx.data.toLowerCase() === call.data.toLowerCase()]
+    ];
+    const mismatches = checks.filter(([, matches]) => !matches).map(([field]) => field);
+    if (mismatches.length > 0) {
+        throw new Error(`Signed transaction does not match the request: ${mismatches.join(", ")}`);
+    }
+
+    const chainId = Number(request.chainId);
+    try {
+        await makeRPCCall(chainId, 'eth_sendRawTransaction', [tx.serialized]);
     } catch (error) {
-        throw new Error(`RPC call failed: ${error}`);
+        // A retried broadcast may find the transaction already in the mempool
+        if (!(error instanceof RpcError) || !/already known|known transaction/i.test(error.message)) {
+            throw error;
+        }
     }
+
+    const result = await makeRPCCall(chainId, 'eth_getTransactionReceipt', [tx.hash]).catch(() => null);
+    const receipt = isRecord(result) ? result : null;
+    const status = !receipt ? "SUBMITTED" : receipt.status === "0x1" ? "CONFIRMED" : "FAILED";
+    return {
+        success: status === "CONFIRMED",
+        status,
+        txHash: tx.hash!,
+        gasUsed: receipt ? BigInt(toHexResult(receipt.gasUsed, 'eth_getTransactionReceipt')).toString() : "0",
+        effectiveGasPrice: receipt ? BigInt(toHexResult(receipt.effectiveGasPrice, 'eth_getTransactionReceipt')).toString() : "0",
+        message: status === "SUBMITTED"
+            ? "Transaction submitted; it is not confirmed yet"
+            : status === "CONFIRMED" ? "Transfer confirmed" : "Transaction reverted",
+        unsignedTransaction: ""
+    };
 }
 
 /**
@@ -237,6 +960,7 @@ export default Canister({
             nativeCurrency: config.nativeCurrency,
             enabled: config.enabled
         });
+        historyRangeSizes.delete(Number(config.chainId));
 
         return { Ok: true };
     }),
@@ -260,8 +984,90 @@ export default Canister({
         return networkList;
     }),
 
+    /**
+     * Normalize HTTPS outcall responses so that all replicas agree on them
+     * Headers are dropped. JSON-RPC responses are reduced to their id, result and
+     * error in id order; price, exchange rate and explorer responses to the fields used,
+     * with prices and rates rounded to PRICE_SIGNIFICANT_DIGITS.
+     * @param args - Raw response and the transform context set by setOutcallTransform
+     * @returns The normalized response
+     */
+    transformHttpResponse: query([HttpTransformArgs], HttpResponse, (args: HttpTransformArgs) => {
+        const [kind, methods = ""] = new TextDecoder().decode(args.context).split(":");
+        let body = args.response.body;
+        try {
+            const payload = JSON.parse(new TextDecoder().decode(body));
+            let normalized: any = payload;
+            if (kind === "rpc") {
+                // Request ids are 1-based positions in the batch; the head moves between replicas
+                const batchMethods = methods.split(",");
+                const strip = (response: any) => response.error
+                    ? { jsonrpc: "2.0", id: response.id, error: { code: response.error.code, message: response.error.message, data: response.error.data } }
+                    : batchMethods[Number(response.id) - 1] === "eth_blockNumber"
+                        ? { jsonrpc: "2.0", id: response.id, result: ethers.toQuantity(BigInt(response.result) / HEAD_BLOCK_ROUNDING * HEAD_BLOCK_ROUNDING) }
+                        : { jsonrpc: "2.0", id: response.id, result: response.result };
+                normalized = Array.isArray(payload)
+                    ? payload.map(strip).sort((a: any, b: any) => Number(a.id) - Number(b.id))
+                    : strip(payload);
+            } else if (kind === "price") {
+                // Only the price is kept, rounded; timestamps and confidence change between fetches
+                normalized = {
+                    coins: Object.fromEntries(Object.entries(payload.coins || {}).map(([key, coin]: [string, any]) =>
+                        [key, { price: Number(Number(coin.price).toPrecision(PRICE_SIGNIFICANT_DIGITS)) }]))
+                };
+            } else if (kind === "fx") {
+                normalized = {
+                    rates: Object.fromEntries(Object.entries(payload.rates || {}).map(([currency, rate]) =>
+                        [currency, Number(Number(rate).toPrecision(PRICE_SIGNIFICANT_DIGITS))]))
+                };
+            } else if (kind === "explorer") {
+                const fields = ["hash", "from", "to", "value", "gasUsed", "gasPrice", "isError", "blockNumber", "timeStamp", "traceId"];
+                normalized = {
+                    status: payload.status,
+                    message: payload.message,
+                    result: Array.isArray(payload.result)
+                        ? payload.result.map((tx: any) => Object.fromEntries(fields.filter(field => field in tx).map(field => [field, tx[field]])))
+                        : payload.result
+                };
+            }
+            body = new TextEncoder().encode(JSON.stringify(normalized));
+        } catch {
+            // Non-JSON bodies (e.g. error pages) are kept as they are
+        }
+
+        return {
+            status: args.response.status,
+            headers: [],
+            body
+        };
+    }),
+
+    /**
+     * Set the tokens canister whose registered tokens are included in balances (owner only)
+     * @param canisterId - Principal of the tokens canister
+     * @returns Success boolean or error message
+     */
+    setTokensCanister: update([text], Result(bool), (canisterId: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update the tokens canister" };
+        }
+
+        try {
+            tokensCanisterId = Principal.fromText(canisterId).toText();
+        } catch {
+            return { Err: "Invalid canister ID" };
+        }
+        balanceCache.clear();
+        return { Ok: true };
+    }),
+
     /**
      * Get wallet balance for a specific chain
+     * Includes the native balance and nonzero balances of the tokens registered
+     * for the chain, priced in USD where a market price exists.
      * @param address - Wallet address
      * @param chainId - Chain ID
      * @returns Wallet balance information or error
@@ -275,111 +1081,234 @@ export default Canister({
                 return { Err: "Unsupported network" };
             }
 
-            const cacheKey = `balance_${address}_${chainIdStr}`;
-            const cached = balanceCache.get(cacheKey);
-            
-            // Return cached data if still valid
-            if (cached && (Date.now() - cached.timestamp) < BALANCE_CACHE_TTL) {
-                return { Ok: cached.data };
+            if (!ethers.isAddress(address)) {
+                return { Err: "Invalid address format" };
             }
 
-            // Make RPC calls to get balance
-            const nativeBalance = await makeRPCCall(Number(chainId), 'eth_getBalance', [address, 'latest']);
-            
-            // Mock token balances
-            const mockTokens = [
-                {
-                    symbol: "USDC",
-                    name: "USD Coin",
-                    address: "0xa0b86a33e6441c8c1c1b3c8c1d3c9c8c1c1c1c1c",
-                    balance: "1000000000", // 1000 USDC (6 decimals)
-                    decimals: BigInt(6),
-                    price: 1.0,
-                    value: 1000.0
-                },
-                {
-                    symbol: "WETH",
-                    name: "Wrapped Ether",
-                    address: "0xc0b86a33e6441c8c1c1b3c8c1d3c9c8c1c1c1c1c",
-                    balance: "2000000000000000000", // 2 WETH (18 decimals)
-                    decimals: BigInt(18),
-                    price: 2000.0,
-                    value: 4000.0
-                }
-            ];
-
-            const walletBalance = {
-                address,
-                chainId: BigInt(chainId),
-                nativeBalance: "5000000000000000000", // 5 ETH
-                nativeValue: 10000.0, // 5 ETH * $2000
-                tokens: mockTokens,
-                totalValue: 15000.0, // 10000 + 1000 + 4000
-                lastUpdated: BigInt(Date.now())
-            };
+            const [outcome] = await loadWalletBalances([address], Number(chainId));
+            if (outcome.status === "rejected") {
+                throw outcome.reason;
+            }
+            return { Ok: outcome.value };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Balance fetch failed: ${message}` };
+        }
+    }),
 
-            // Cache the response
-            balanceCache.set(cacheKey, {
-                data: walletBalance,
-                timestamp: Date.now()
-            });
+    /**
+     * Get the balances of one or more addresses across all enabled networks
+     * The addresses of a chain are read together with loadWalletBalances.
+     * A chain whose RPC or prices fail gets an error entry instead of failing the call,
+     * and totals fall back to USD when the exchange rate API cannot be read.
+     * @param addresses - Wallet addresses
+     * @param currency - ISO 4217 code of the totals, USD by default
+     * @returns Per-chain balances and subtotals with a grand total, or error
+     */
+    getPortfolio: update([Vec(text), Opt(text)], Result(Portfolio), async (addresses: string[], currency: any) => {
+        try {
+            if (addresses.length === 0 || addresses.length > MAX_PORTFOLIO_ADDRESSES) {
+                return { Err: `Between 1 and ${MAX_PORTFOLIO_ADDRESSES} addresses are required` };
+            }
+            const invalid = addresses.find(address => !ethers.isAddress(address));
+            if (invalid !== undefined) {
+                return { Err: `Invalid address format: ${invalid}` };
+            }
+
+            const requested = (currency?.Some || "USD").toUpperCase();
+            const rate = await getUsdRate(requested);
+            const fiat = rate === null ? "USD" : requested;
+            const usdRate = rate ?? 1;
+
+            const enabled = Array.from(networks.values()).filter(network => network.enabled);
+            const chains = await Promise.all(enabled.map(async network => {
+                // A chain-wide failure is reported for every address of the chain
+                const settled = await loadWalletBalances(addresses, network.chainId)
+                    .catch((reason: unknown) => addresses.map((): PromiseRejectedResult => ({ status: "rejected", reason })));
+                const balances = [];
+                const errors = [];
+                for (const [index, outcome] of settled.entries()) {
+                    if (outcome.status === "fulfilled") {
+                        balances.push(outcome.value);
+                        if (!outcome.value.pricesAvailable) {
+                            errors.push(`${addresses[index]}: prices unavailable, valued at 0`);
+                        }
+                    } else {
+                        const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+                        errors.push(`${addresses[index]}: ${reason}`);
+                    }
+                }
+                return {
+                    chainId: BigInt(network.chainId),
+                    name: network.name,
+                    balances,
+                    subtotal: balances.reduce((sum, balance) => sum + balance.totalValue, 0) * usdRate,
+                    error: errors.length > 0 ? { Some: errors.join("; ") } : { None: null }
+                };
+            }));
 
-            return { Ok: walletBalance };
+            return {
+                Ok: {
+                    addresses,
+                    currency: fiat,
+                    usdRate,
+                    chains,
+                    totalValue: chains.reduce((sum, chain) => sum + chain.subtotal, 0),
+                    lastUpdated: BigInt(Date.now()),
+                    error: rate === null ? { Some: `Exchange rate for ${requested} unavailable; totals are in USD` } : { None: null }
+                }
+            };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
-            return { Err: `Balance fetch failed: ${message}` };
+            return { Err: `Portfolio fetch failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Set the Etherscan-compatible explorer API used for native transfer history (owner only)
+     * Without one, history only includes ERC-20 transfers of registered tokens.
+     * @param chainId - The chain ID
+     * @param apiUrl - API base URL, e.g. https://api.etherscan.io/v2/api?chainid=1, or empty to remove it
+     * @param apiKey - API key
+     * @returns Success boolean or error message
+     */
+    setExplorerApi: update([nat64, text, text], Result(bool), (chainId: bigint, apiUrl: string, apiKey: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update explorer APIs" };
+        }
+        if (!networks.has(chainId.toString())) {
+            return { Err: "Unsupported network" };
         }
+
+        if (!apiUrl) {
+            explorerApis.delete(chainId.toString());
+        } else if (!apiUrl.startsWith("https://")) {
+            return { Err: "Explorer API URL must use HTTPS" };
+        } else {
+            explorerApis.set(chainId.toString(), { url: apiUrl, apiKey });
+        }
+        transactionCache.clear();
+        historyRangeSizes.delete(Number(chainId));
+        return { Ok: true };
     }),
 
     /**
-     * Get wallet transactions
+     * Get wallet transfer history, newest first
+     * Includes ERC-20 transfers of registered tokens from chain logs and, when an
+     * explorer API is configured for the chain, native transfers. Blocks are scanned
+     * backwards in ranges that double after a success and halve when the node or
+     * explorer rejects them, at most MAX_HISTORY_RANGES per page. The newest page
+     * starts at the head rounded down to HEAD_BLOCK_ROUNDING blocks, which replicas
+     * agree on. A page may hold fewer transfers than the limit; continue with
+     * nextCursor until it is None.
      * @param address - Wallet address
      * @param chainId - Chain ID
-     * @param limit - Maximum number of transactions
-     * @returns Transaction history or error
+     * @param limit - Maximum number of transfers
+     * @param cursor - nextCursor of the previous page, None for the newest transfers
+     * @returns Transfer page or error
      */
-    getWalletTransactions: update([text, nat64, Opt(nat64)], Result(Vec(TransactionData)), async (address: string, chainId: bigint, limit?: bigint) => {
+    getWalletTransactions: update([text, nat64, Opt(nat64), Opt(text)], Result(TransactionPage), async (address: string, chainId: bigint, limit: Opt<bigint>, cursor: Opt<string>) => {
         try {
             const chainIdStr = chainId.toString();
             const network = networks.get(chainIdStr);
-            
+
             if (!network) {
                 return { Err: "Unsupported network" };
             }
+            if (!ethers.isAddress(address)) {
+                return { Err: "Invalid address format" };
+            }
 
-            const txLimit = limit ? Number(limit) : 50;
-            const cacheKey = `tx_${address}_${chainIdStr}_${txLimit}`;
-            const cached = transactionCache.get(cacheKey);
-            
-            // Return cached data if still valid
-            if (cached && (Date.now() - cached.timestamp) < TX_CACHE_TTL) {
-                return { Ok: cached.data };
+            const wallet = ethers.getAddress(address);
+            const txLimit = Math.min(Number(limit.Some ?? DEFAULT_HISTORY_PAGE_SIZE), MAX_HISTORY_PAGE_SIZE);
+            if (txLimit <= 0) {
+                return { Err: "Limit must be positive" };
             }
 
-            // Mock transaction data
-            const mockTransactions = [];
-            for (let i = 0; i < Math.min(txLimit, 10); i++) {
-                mockTransactions.push({
-                    hash: `0x${Math.random().toString(16).substring(2).padStart(64, '0')}`,
-                    from: i % 2 === 0 ? address : `0x${'1'.repeat(40)}`,
-                    to: i % 2 === 0 ? `0x${'2'.repeat(40)}` : address,
-                    value: (Math.random() * 10).toFixed(18),
-                    gasUsed: "21000",
-                    gasPrice: "20000000000",
-                    status: "success",
-                    blockNumber: BigInt(18000000 + i),
-                    timestamp: BigInt(Date.now() - (i * 3600000)), // 1 hour apart
-                    chainId: BigInt(chainId)
-                });
+            // The cursor is `${block}:${skip}`: continue at block, skipping its first transfers
+            const head = Number(toHexResult(await makeRPCCall(Number(chainId), 'eth_blockNumber', []), 'eth_blockNumber'));
+            let startBlock = head;
+            let skip = 0;
+            if (cursor.Some !== undefined) {
+                const match = /^(\d+):(\d+)$/.exec(cursor.Some);
+                if (!match || Number(match[1]) > head) {
+                    return { Err: "Invalid cursor" };
+                }
+                startBlock = Number(match[1]);
+                skip = Number(match[2]);
             }
 
-            // Cache the response
-            transactionCache.set(cacheKey, {
-                data: mockTransactions,
-                timestamp: Date.now()
+            const tokens = await getRegisteredTokens(Number(chainId));
+            const tokenInfo = new Map(tokens.map(token => [ethers.getAddress(token.address), token]));
+
+            let items: HistoryItem[] = [];
+            let nextBlock = startBlock;
+            let rangeSize = historyRangeSizes.get(Number(chainId)) ?? HISTORY_INITIAL_RANGE;
+            for (let range = 0; range < MAX_HISTORY_RANGES && nextBlock >= 0 && items.length < skip + txLimit; range++) {
+                const fromBlock = Math.max(nextBlock - rangeSize + 1, 0);
+                try {
+                    items.push(...await loadHistoryRange(wallet, Number(chainId), fromBlock, nextBlock, Array.from(tokenInfo.keys())));
+                } catch (error) {
+                    if (rangeSize === 1) {
+                        throw error;
+                    }
+                    rangeSize = Math.ceil(rangeSize / 2);
+                    historyRangeSizes.set(Number(chainId), rangeSize);
+                    continue;
+                }
+                nextBlock = fromBlock - 1;
+                rangeSize = Math.min(rangeSize * 2, MAX_HISTORY_RANGE);
+            }
+            if (nextBlock < startBlock) {
+                historyRangeSizes.set(Number(chainId), rangeSize);
+            }
+
+            // Transfers of startBlock come first, so the skipped ones are at the front
+            items = items.slice(skip);
+            // Every range of the page may have been rejected; then the cursor stays put
+            let nextCursor: string | null = nextBlock < 0 ? null : nextBlock === startBlock ? `${startBlock}:${skip}` : `${nextBlock}:0`;
+            if (items.length >= txLimit) {
+                items = items.slice(0, txLimit);
+                const lastBlock = items[items.length - 1].blockNumber;
+                const taken = items.filter(item => item.blockNumber === lastBlock).length;
+                nextCursor = `${lastBlock}:${taken + (lastBlock === startBlock ? skip : 0)}`;
+            }
+
+            await enrichHistoryItems(Number(chainId), items);
+
+            const transactions = items.map(item => {
+                const token = item.tokenAddress ? tokenInfo.get(item.tokenAddress) : undefined;
+                const decimals = token ? Number(token.decimals) : 18;
+                const outgoing = item.from === wallet;
+                const incoming = item.to === wallet;
+                return {
+                    hash: item.hash,
+                    from: item.from,
+                    to: item.to,
+                    value: item.value,
+                    amount: ethers.formatUnits(item.value, decimals),
+                    tokenAddress: item.tokenAddress ? { Some: item.tokenAddress } : { None: null },
+                    symbol: token ? token.symbol : network.nativeCurrency,
+                    decimals: BigInt(decimals),
+                    direction: outgoing && incoming ? "self" : outgoing ? "out" : "in",
+                    gasUsed: item.gasUsed ?? "0",
+                    gasPrice: item.gasPrice ?? "0",
+                    status: item.status,
+                    blockNumber: BigInt(item.blockNumber),
+                    timestamp: BigInt(item.timestamp ?? 0),
+                    chainId: BigInt(chainId)
+                };
             });
 
-            return { Ok: mockTransactions };
+            return {
+                Ok: {
+                    transactions,
+                    nextCursor: nextCursor !== null ? { Some: nextCursor } : { None: null }
+                }
+            };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
             return { Err: `Transaction fetch failed: ${message}` };
@@ -388,6 +1317,9 @@ export default Canister({
 
     /**
      * Transfer tokens or native currency
+     * With signedTransaction, the payload is checked against the request and broadcast.
+     * Without it, an unsigned EIP-1559 transaction is returned for the sender to sign;
+     * nothing is sent. success is only true once the transfer is mined.
      * @param request - Transfer request parameters
      * @returns Transfer result or error
      */
@@ -401,29 +1333,34 @@ export default Canister({
             }
 
             // Validate addresses
-            if (!request.from.match(/^0x[a-fA-F0-9]{40}$/) || !request.to.match(/^0x[a-fA-F0-9]{40}$/)) {
+            if (!ethers.isAddress(request.from) || !ethers.isAddress(request.to) ||
+                (request.tokenAddress?.Some !== undefined && !ethers.isAddress(request.tokenAddress.Some))) {
                 return { Err: "Invalid address format" };
             }
 
-            // For demo purposes, simulate a successful transfer
-            // In production, this would use ethers.js to send actual transactions
-            const mockTxHash = `0x${Math.random().toString(16).substring(2).padStart(64, '0')}`;
-            
-            const transferResult = {
-                success: true,
-                txHash: mockTxHash,
-                gasUsed: "21000",
-                effectiveGasPrice: "20000000000",
-                message: "Transfer completed successfully"
-            };
+            const call = await buildTransferCall(request);
 
-            // Clear balance cache for affected addresses
-            for (const [key] of balanceCache.entries()) {
-                if (key.includes(request.from) || key.includes(request.to)) {
-                    balanceCache.delete(key);
-                }
+            if (request.signedTransaction?.Some === undefined) {
+                const unsignedTx = await buildUnsignedTransfer(request, call);
+                return {
+                    Ok: {
+                        success: false,
+                        status: "UNSIGNED",
+                        txHash: "",
+                        gasUsed: "0",
+                        effectiveGasPrice: "0",
+                        message: "Sign unsignedTransaction and call transferTokens again with signedTransaction",
+                        unsignedTransaction: unsignedTx.unsignedSerialized
+                    }
+                };
             }
 
+            const transferResult = await broadcastSignedTransfer(request, call);
+
+            // Clear balance cache for affected addresses
+            balanceCache.delete(getBalanceCacheKey(request.from, Number(request.chainId)));
+            balanceCache.delete(getBalanceCacheKey(request.to, Number(request.chainId)));
+
             return { Ok: transferResult };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
@@ -490,6 +1427,11 @@ export default Canister({
                 from: `0x${'1'.repeat(40)}`,
                 to: `0x${'2'.repeat(40)}`,
                 value: "1000000000000000000", // 1 ETH
+                amount: "1.0",
+                tokenAddress: { None: null },
+                symbol: network.nativeCurrency,
+                decimals: 18n,
+                direction: "out", // Seen from the sender
                 gasUsed: "21000",
                 gasPrice: "20000000000",
                 status: "success",
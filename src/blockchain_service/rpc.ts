@@ -0,0 +1,186 @@
+/**
+ * @fileoverview JSON-RPC batching, typed errors and retries for the Blockchain Service
+ * @author ChatterPay Team
+ * @version 1.0.0
+ */
+
+/** Kinds of JSON-RPC failures */
+export type RpcErrorKind = "RATE_LIMIT" | "EXECUTION_REVERTED" | "INVALID_PARAMS" | "METHOD_NOT_FOUND" | "TRANSPORT" | "RPC";
+
+/**
+ * JSON-RPC failure, typed by kind so callers can tell reverts from node problems
+ */
+export class RpcError extends Error {
+    readonly kind: RpcErrorKind;
+    readonly code: number | null;
+    readonly data: unknown;
+
+    constructor(kind: RpcErrorKind, message: string, code: number | null = null, data?: unknown) {
+        super(message);
+        this.name = "RpcError";
+        this.kind = kind;
+        this.code = code;
+        this.data = data;
+    }
+}
+
+/** Outcome of one call in a JSON-RPC batch */
+export type RpcOutcome = { result: unknown; error?: undefined } | { result?: undefined; error: RpcError };
+
+/** One JSON-RPC call */
+export type RpcCall = { method: string; params: unknown[] };
+
+/**
+ * How JSON-RPC requests are sent
+ * In the canister, requests are HTTPS outcalls and waits are consensus rounds.
+ */
+export type RpcTransport = {
+    fetch: (url: string, init: RequestInit) => Promise<Response>;
+    prepareRequest: (calls: RpcCall[]) => void; // Called with the calls of every request, e.g. to set outcall options
+    wait: (rounds: number) => Promise<void>;
+};
+
+/** Failures worth retrying after a backoff */
+const RETRYABLE_RPC_ERRORS: RpcErrorKind[] = ["RATE_LIMIT", "TRANSPORT"];
+
+/** Retries after the first attempt */
+const RPC_MAX_RETRIES = 3;
+
+/** Backoff before the first retry, in consensus rounds; doubled on every retry */
+const RPC_BACKOFF_ROUNDS = 1;
+
+/** Largest number of calls sent in one JSON-RPC batch */
+const RPC_MAX_BATCH_SIZE = 50;
+
+/**
+ * Check whether a parsed JSON value is an object
+ * @param value - The value
+ * @returns True for non-null, non-array objects
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Type a JSON-RPC error object by its code and message
+ * @param error - The `error` member of a JSON-RPC response
+ * @returns The typed error
+ */
+export function toRpcError(error: { code?: unknown; message?: unknown; data?: unknown }): RpcError {
+    const code = typeof error.code === "number" ? error.code : null;
+    const message = typeof error.message === "string" && error.message ? error.message : JSON.stringify(error);
+
+    let kind: RpcErrorKind = "RPC";
+    if (code === -32005 || code === 429 || /rate limit|too many requests/i.test(message)) {
+        kind = "RATE_LIMIT";
+    } else if (code === 3 || /execution reverted/i.test(message)) {
+        kind = "EXECUTION_REVERTED";
+    } else if (code === -32602) {
+        kind = "INVALID_PARAMS";
+    } else if (code === -32601) {
+        kind = "METHOD_NOT_FOUND";
+    }
+    return new RpcError(kind, message, code, error.data);
+}
+
+/**
+ * Narrow a JSON-RPC result that must be hex data or a quantity
+ * @param result - The result of a call
+ * @param method - The JSON-RPC method, for the error message
+ * @returns The hex string
+ * @throws RpcError if the result is not a hex string
+ */
+export function toHexResult(result: unknown, method: string): string {
+    if (typeof result !== "string" || !/^0x[0-9a-f]*$/i.test(result)) {
+        throw new RpcError("RPC", `${method} returned a malformed result`);
+    }
+    return result;
+}
+
+/**
+ * POST one JSON-RPC batch to an endpoint
+ * @param transport - How requests are sent
+ * @param url - RPC endpoint
+ * @param calls - Calls of the batch
+ * @returns Outcomes in the order of the calls
+ * @throws RpcError if the whole request fails
+ */
+async function postRPCBatch(transport: RpcTransport, url: string, calls: RpcCall[]): Promise<RpcOutcome[]> {
+    let payload: unknown;
+    try {
+        transport.prepareRequest(calls);
+        const response = await transport.fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(calls.map((call, index) => ({ jsonrpc: "2.0", id: index + 1, method: call.method, params: call.params })))
+        });
+        if (response.status === 429) {
+            throw new RpcError("RATE_LIMIT", `${url} returned HTTP 429`, 429);
+        }
+        if (!response.ok) {
+            throw new RpcError("TRANSPORT", `${url} returned HTTP ${response.status}`, response.status);
+        }
+        payload = await response.json();
+    } catch (error) {
+        if (error instanceof RpcError) {
+            throw error;
+        }
+        throw new RpcError("TRANSPORT", `${url} request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Some nodes answer a whole batch with a single error object
+    if (!Array.isArray(payload)) {
+        const error = isRecord(payload) && isRecord(payload.error) ? payload.error : null;
+        throw error ? toRpcError(error) : new RpcError("TRANSPORT", `${url} returned a malformed response`);
+    }
+
+    const byId = new Map<unknown, Record<string, unknown>>(payload.filter(isRecord).map(response => [response.id, response]));
+    return calls.map((_, index) => {
+        const response = byId.get(index + 1);
+        if (!response) {
+            return { error: new RpcError("TRANSPORT", `${url} returned no response for request ${index + 1}`) };
+        }
+        return isRecord(response.error) ? { error: toRpcError(response.error) } : { result: response.result };
+    });
+}
+
+/**
+ * Send JSON-RPC calls to an endpoint
+ * Calls are sent in batches of RPC_MAX_BATCH_SIZE. Rate-limited and failed
+ * requests are retried with exponential backoff; other errors are returned.
+ * @param transport - How requests are sent and retries wait
+ * @param url - RPC endpoint
+ * @param calls - JSON-RPC methods and params
+ * @returns Outcomes in the order of the calls
+ */
+export async function sendRPCBatch(transport: RpcTransport, url: string, calls: RpcCall[]): Promise<RpcOutcome[]> {
+    const outcomes: RpcOutcome[] = new Array(calls.length);
+    let pending = calls.map((_, index) => index);
+    for (let attempt = 0; ; attempt++) {
+        const retry: number[] = [];
+        for (let start = 0; start < pending.length; start += RPC_MAX_BATCH_SIZE) {
+            const chunk = pending.slice(start, start + RPC_MAX_BATCH_SIZE);
+            let chunkOutcomes: RpcOutcome[];
+            try {
+                chunkOutcomes = await postRPCBatch(transport, url, chunk.map(index => calls[index]));
+            } catch (error) {
+                const rpcError = error instanceof RpcError ? error : new RpcError("TRANSPORT", String(error));
+                chunkOutcomes = chunk.map(() => ({ error: rpcError }));
+            }
+
+            chunk.forEach((index, position) => {
+                const outcome = chunkOutcomes[position];
+                outcomes[index] = outcome;
+                if (outcome.error && RETRYABLE_RPC_ERRORS.includes(outcome.error.kind)) {
+                    retry.push(index);
+                }
+            });
+        }
+
+        if (retry.length === 0 || attempt >= RPC_MAX_RETRIES) {
+            return outcomes;
+        }
+        pending = retry;
+        await transport.wait(RPC_BACKOFF_ROUNDS * 2 ** attempt);
+    }
+}
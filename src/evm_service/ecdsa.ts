@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Ethereum signatures from threshold ECDSA keys
+ * @author ChatterPay Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+
+/** Order of the secp256k1 curve */
+const SECP256K1_ORDER = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+/**
+ * Derivation path of a user's signing key
+ * @param userId - The user identifier (e.g. the user hash)
+ * @returns The derivation path for the management canister
+ */
+export function getDerivationPath(userId: string): Uint8Array[] {
+    return [ethers.toUtf8Bytes("chatterpay-evm"), ethers.toUtf8Bytes(userId)];
+}
+
+/**
+ * Derivation path of the key that approves sponsored UserOperations
+ * Its single segment cannot collide with the two-segment user paths.
+ * @returns The derivation path for the management canister
+ */
+export function getPaymasterDerivationPath(): Uint8Array[] {
+    return [ethers.toUtf8Bytes("chatterpay-paymaster")];
+}
+
+/**
+ * Turn a raw 64-byte (r, s) signature into an Ethereum signature
+ * Ethereum only accepts the low-s form, and the management canister returns no
+ * recovery bit, so it is found by recovering the signer address.
+ * @param digest - The signed 32-byte hash
+ * @param signature - r followed by s, as returned by sign_with_ecdsa
+ * @param address - The signer address
+ * @returns The signature with low s and the matching yParity
+ * @throws Error if neither recovery bit yields the signer address
+ */
+export function toEthereumSignature(digest: string, signature: Uint8Array, address: string): ethers.Signature {
+    if (signature.length !== 64) {
+        throw new Error(`Expected a 64-byte signature, got ${signature.length} bytes`);
+    }
+
+    const r = ethers.hexlify(signature.slice(0, 32));
+    let s = BigInt(ethers.hexlify(signature.slice(32, 64)));
+    if (s > SECP256K1_ORDER / 2n) {
+        s = SECP256K1_ORDER - s;
+    }
+
+    for (const yParity of [0, 1] as const) {
+        const candidate = ethers.Signature.from({ r, s: ethers.toBeHex(s, 32), yParity });
+        if (ethers.recoverAddress(digest, candidate) === ethers.getAddress(address)) {
+            return candidate;
+        }
+    }
+    throw new Error("Signature does not recover to the signer address");
+}
@@ -5,19 +5,33 @@
 
 import { 
     Canister, 
+    init,
+    postUpgrade,
+    serialize,
     query, 
     update, 
     Record, 
     text, 
+    nat, 
     nat64, 
     bool,
+    Principal,
     Variant,
     ic,
     Vec,
-    CandidType
+    CandidType,
+    Opt,
+    float64
 } from 'azle/experimental';
 import { ethers, JsonRpcProvider, Wallet } from 'ethers';
-import type { TransactionReceipt, TransactionResponse } from 'ethers';
+import type { JsonRpcError, JsonRpcResult, TransactionResponse } from 'ethers';
+import { createRpcEndpoint, getEndpointScore, PooledRpcProvider, rpcEndpoints, rpcQuorums, sendWithFailover } from './rpc_pool';
+import { DUMMY_SIGNATURE, encodeHandleOps, encodePaymasterAndData, getPaymasterHash, getUserOperationHash, userOperationToCandid, userOperationToRpc } from './user_operation';
+import type { UserOp } from './user_operation';
+import { computeWalletAddress } from './wallet_address';
+import { getDerivationPath, getPaymasterDerivationPath, toEthereumSignature } from './ecdsa';
+import { ETH_COIN_TYPE, getCoinType, getRegistryResolver, getReverseName, resolveAddressRecord, resolveNameRecord } from './name_resolution';
+import type { AccountProxyCode, SaltScheme } from './wallet_address';
 
 /**
  * RPC endpoint configurations from environment variables
@@ -29,26 +43,64 @@ const ETHEREUM_RPC = process.env.ETHEREUM_RPC || "https://ethereum.publicnode.co
 const SCROLL_RPC = process.env.SCROLL_RPC || "https://rpc.scroll.io";
 const SCROLL_SEPOLIA_RPC = process.env.SCROLL_SEPOLIA_RPC || "https://sepolia-rpc.scroll.io";
 
+/** Registered chain settings; the chain's RPC endpoints live in rpcEndpoints */
+type ChainEntry = {
+    name: string;
+    nativeCurrency: { name: string; symbol: string; decimals: number };
+    explorerUrl: string;
+    eip1559: boolean;
+    confirmations: number; // Blocks after inclusion before a transaction counts as final
+};
+
+const ETH = { name: "Ether", symbol: "ETH", decimals: 18 };
+
 /**
- * Supported blockchain configurations
- * Maps chain ID to network name and RPC endpoint
+ * Chains registered at deployment; more can be registered at runtime
+ * RPC values are comma-separated lists of failover endpoints
  */
-const CHAIN_CONFIGS = {
-    421614: { name: "Arbitrum Sepolia", rpc: ARBITRUM_SEPOLIA_RPC },
-    137: { name: "Polygon", rpc: POLYGON_RPC },
-    56: { name: "BSC", rpc: BSC_RPC },
-    1: { name: "Ethereum", rpc: ETHEREUM_RPC },
-    534352: { name: "Scroll", rpc: SCROLL_RPC },
-    534351: { name: "Scroll Sepolia", rpc: SCROLL_SEPOLIA_RPC }
-} as const;
+const DEFAULT_CHAINS: Array<ChainEntry & { chainId: number; rpc: string }> = [
+    { chainId: 421614, name: "Arbitrum Sepolia", rpc: ARBITRUM_SEPOLIA_RPC, nativeCurrency: ETH, explorerUrl: "https://sepolia.arbiscan.io", eip1559: true, confirmations: 1 },
+    { chainId: 137, name: "Polygon", rpc: POLYGON_RPC, nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 }, explorerUrl: "https://polygonscan.com", eip1559: true, confirmations: 32 },
+    { chainId: 56, name: "BSC", rpc: BSC_RPC, nativeCurrency: { name: "BNB", symbol: "BNB", decimals: 18 }, explorerUrl: "https://bscscan.com", eip1559: false, confirmations: 15 },
+    { chainId: 1, name: "Ethereum", rpc: ETHEREUM_RPC, nativeCurrency: ETH, explorerUrl: "https://etherscan.io", eip1559: true, confirmations: 12 },
+    { chainId: 534352, name: "Scroll", rpc: SCROLL_RPC, nativeCurrency: ETH, explorerUrl: "https://scrollscan.com", eip1559: true, confirmations: 3 },
+    { chainId: 534351, name: "Scroll Sepolia", rpc: SCROLL_SEPOLIA_RPC, nativeCurrency: ETH, explorerUrl: "https://sepolia.scrollscan.com", eip1559: true, confirmations: 1 }
+];
 
 /** Default chain ID if not specified */
 const DEFAULT_CHAIN_ID = Number(process.env.CHAIN_ID || "421614");
 
-/** Map of initialized JsonRpcProvider instances by chain ID */
+/** Registered chains by chain ID */
+const chainRegistry = new Map<number, ChainEntry>();
+
+/** Map of initialized pooled providers by chain ID */
 const providers = new Map<number, JsonRpcProvider>();
-for (const [chainId, config] of Object.entries(CHAIN_CONFIGS)) {
-    providers.set(Number(chainId), new JsonRpcProvider(config.rpc));
+
+/**
+ * Register or update a chain along with its RPC pool and provider
+ * Endpoints that stay in the list keep their health statistics
+ * @param chainId - The chain ID
+ * @param entry - Chain settings
+ * @param rpcUrls - RPC endpoints of the chain
+ */
+function attachChain(chainId: number, entry: ChainEntry, rpcUrls: string[]) {
+    const existing = rpcEndpoints.get(chainId) || [];
+    rpcEndpoints.set(chainId, rpcUrls.map(url =>
+        existing.find(endpoint => endpoint.url === url) || createRpcEndpoint(chainId, url)
+    ));
+    // A quorum larger than the pool could never be reached
+    const quorum = rpcQuorums.get(chainId);
+    if (quorum !== undefined && quorum > rpcUrls.length) {
+        rpcQuorums.set(chainId, rpcUrls.length);
+    }
+    chainRegistry.set(chainId, entry);
+    if (!providers.has(chainId)) {
+        providers.set(chainId, new PooledRpcProvider(chainId));
+    }
+}
+
+for (const { chainId, rpc, ...entry } of DEFAULT_CHAINS) {
+    attachChain(chainId, entry, rpc.split(",").map(url => url.trim()).filter(url => !!url));
 }
 
 /**
@@ -72,19 +124,22 @@ function getProvider(chainId?: number): JsonRpcProvider {
 
 /** Parameters for pre-signed transaction operations */
 const SignedTransferParams = Record({
-    to: text,
-    from: text,
-    amount: text,
+    to: text, // Address, or a name resolved with resolveName on the transfer's chain
+    from: text, // EVM address of the signer
+    amount: text, // Integer string in wei (not ether, unlike GasEstimateParams)
     signedTransaction: text, // Pre-signed transaction hex
-    chainId: nat64
+    chainId: nat64,
+    simulateFirst: Opt(bool) // Refuse to broadcast if a simulation reverts
 });
 
 /** Parameters for gas estimation */
 const GasEstimateParams = Record({
     to: text,
     from: text,
-    amount: text,
-    chainId: nat64
+    amount: text, // In ether, or in token units when tokenAddress is set
+    chainId: nat64,
+    tokenAddress: Opt(text), // ERC-20 token, None for native transfers
+    decimals: Opt(nat64) // Token decimals, read from the token when None
 });
 
 /** Result of gas estimation containing fee data */
@@ -93,7 +148,10 @@ const GasEstimateResult = Record({
     gasPrice: text,
     maxFeePerGas: text,
     maxPriorityFeePerGas: text,
-    estimatedCost: text
+    estimatedCost: text, // Total fee in wei, including the L1 data fee
+    executionCost: text, // L2 execution fee in wei
+    l1DataFee: text, // L1 data fee in wei, "0" outside rollups
+    estimatedCostInToken: text // Total fee in the token's smallest units, "" without price feeds for the token and native coin
 });
 
 /** Information about a supported blockchain */
@@ -103,8 +161,40 @@ const ChainInfo = Record({
     supported: bool
 });
 
+/** Registry entry of a chain */
+const ChainConfig = Record({
+    chainId: nat64,
+    name: text,
+    rpcUrls: Vec(text),
+    nativeCurrency: Record({
+        name: text,
+        symbol: text,
+        decimals: nat64
+    }),
+    explorerUrl: text,
+    eip1559: bool,
+    confirmations: nat64 // Blocks after inclusion before a transaction counts as final
+});
+
+/** ChatterPay contract addresses on a network */
+const NetworkContracts = Record({
+    factory: text,
+    implementation: text,
+    nft: text,
+    paymaster: text,
+    entryPoint: text
+});
+
+/** A network with ChatterPay contracts configured */
+const SupportedNetwork = Record({
+    chainId: nat64,
+    name: text,
+    contracts: NetworkContracts
+});
+
 /** Result of a successful transfer operation */
 const TransferResult = Record({
+    trackingId: text, // Poll with getTrackedTransaction
     txHash: text,
     status: text,
     gasUsed: text,
@@ -119,6 +209,395 @@ const TransactionStatusResult = Record({
     effectiveGasPrice: text
 });
 
+/** Chain-aware transaction status without waiting for the receipt */
+const TransactionStateResult = Record({
+    txHash: text,
+    chainId: nat64,
+    status: text, // PENDING, MINED, CONFIRMED (chain confirmation depth reached), FAILED, DROPPED, REPLACED or UNKNOWN
+    confirmations: nat64,
+    blockNumber: nat64,
+    gasUsed: text,
+    effectiveGasPrice: text,
+    revertReason: text,
+    replacedBy: text
+});
+
+/** Counterfactual smart account address for a wallet owner */
+const WalletAddressResult = Record({
+    address: text,
+    owner: text,
+    salt: text,
+    factory: text,
+    implementation: text,
+    deployed: bool
+});
+
+/** ERC-4337 (EntryPoint v0.6) UserOperation, numeric fields as decimal strings */
+const UserOperation = Record({
+    sender: text,
+    nonce: text,
+    initCode: text,
+    callData: text,
+    callGasLimit: text,
+    verificationGasLimit: text,
+    preVerificationGas: text,
+    maxFeePerGas: text,
+    maxPriorityFeePerGas: text,
+    paymasterAndData: text,
+    signature: text
+});
+
+/** Parameters for building a smart account UserOperation */
+const BuildUserOperationParams = Record({
+    networkId: nat64,
+    sender: text, // ChatterPay smart account
+    target: text, // Contract or recipient called through execute
+    value: text, // Native value in wei
+    data: text, // Calldata forwarded to target, "0x" for plain transfers
+    owner: Opt(text), // Required when the account is not deployed yet or the operation is sponsored
+    salt: Opt(text),
+    sponsored: bool // Attach a signed approval of the configured paymaster
+});
+
+/** UserOperation awaiting the owner's signature */
+const UserOperationDraft = Record({
+    userOpHash: text,
+    entryPoint: text,
+    chainId: nat64,
+    userOperation: UserOperation
+});
+
+/** Bundler receipt for a submitted UserOperation */
+const UserOperationReceiptResult = Record({
+    userOpHash: text,
+    status: text,
+    txHash: text,
+    actualGasUsed: text,
+    actualGasCost: text
+});
+
+/** Global paymaster sponsorship limits, amounts in wei */
+const SponsorshipPolicyConfig = Record({
+    enabled: bool,
+    userDailyBudget: text, // Max sponsored gas cost per account owner per UTC day
+    globalCeiling: text // Max total sponsored gas cost
+});
+
+/** Paymaster sponsorship rules for one network */
+const NetworkSponsorshipRules = Record({
+    networkId: nat64,
+    cap: text, // Max sponsored gas cost on this network, in wei
+    allowedTargets: Vec(text),
+    allowedSelectors: Vec(text) // 4-byte selectors, "0x" for plain value transfers
+});
+
+/** Sponsorship policy with current spend */
+const SponsorshipPolicyState = Record({
+    enabled: bool,
+    userDailyBudget: text,
+    globalCeiling: text,
+    globalSpent: text,
+    networks: Vec(Record({
+        networkId: nat64,
+        cap: text,
+        spent: text,
+        allowedTargets: Vec(text),
+        allowedSelectors: Vec(text)
+    }))
+});
+
+/** Operation submitted for a sponsorship decision */
+const SponsorshipRequest = Record({
+    networkId: nat64,
+    owner: text, // Owner of the sending smart account; budgets are per owner
+    target: text,
+    data: text,
+    maxGasCost: text // Worst-case gas cost in wei
+});
+
+/** Paymaster sponsorship decision */
+const SponsorshipDecision = Variant({
+    Approved: Record({
+        paymaster: text, // The signed paymasterAndData is only issued by buildUserOperation
+        maxGasCost: text
+    }),
+    Rejected: Record({
+        code: text,
+        reason: text
+    })
+});
+
+/** Parameters for a read-only contract call */
+const ReadContractParams = Record({
+    networkId: nat64,
+    contractType: text, // "factory", "implementation", "nft", etc.
+    contractAddress: Opt(text), // Overrides the configured address, e.g. a user's smart account
+    methodName: text, // Function name, or full signature for overloaded functions
+    params: text // JSON array of parameters
+});
+
+/** Health of an RPC endpoint in a chain's pool */
+const RpcEndpointHealth = Record({
+    url: text,
+    latencyMs: float64,
+    errorRate: float64,
+    successes: nat64,
+    failures: nat64,
+    circuitOpen: bool,
+    score: float64
+});
+
+/** A registered ABI version and the interface it exposes */
+const ABIDescription = Record({
+    contractType: text,
+    version: text,
+    registeredAt: nat64,
+    abi: text,
+    functions: Vec(text),
+    events: Vec(text),
+    errors: Vec(text)
+});
+
+/** Last processed block of an indexer */
+const BlockCursor = Record({
+    blockNumber: nat64,
+    blockHash: text
+});
+
+/** Parameters for an event indexing pass */
+const IndexEventsParams = Record({
+    networkId: nat64,
+    fromBlock: nat64, // First block to scan when there is no cursor
+    toBlock: Opt(nat64), // Defaults to the chain head, capped at MAX_INDEX_BLOCKS per call
+    cursor: Opt(BlockCursor), // Last block processed by the previous pass
+    tokenAddresses: Vec(text) // ERC-20 tokens to index besides the factory and NFT contracts
+});
+
+/** A decoded contract event */
+const IndexedEvent = Record({
+    contractType: text,
+    address: text,
+    event: text, // Event name, empty if no ABI matched
+    signature: text, // Event signature, or topic0 if no ABI matched
+    args: text, // JSON object of decoded arguments (integers as strings)
+    blockNumber: nat64,
+    blockHash: text,
+    txHash: text,
+    logIndex: nat64
+});
+
+/** Events found in a block range and where the next pass starts */
+const IndexEventsResult = Record({
+    events: Vec(IndexedEvent),
+    cursor: BlockCursor,
+    reorgDetected: bool // Cursor block was replaced; cursor was rewound and no events were returned
+});
+
+/** A broadcast transaction that holds up later nonces of its sender */
+const StuckTransaction = Record({
+    nonce: nat64,
+    txHash: text,
+    ageSeconds: nat64,
+    reason: text
+});
+
+/** Nonce view of an account on one chain */
+const NonceStatus = Record({
+    address: text,
+    minedNonce: nat64, // Transactions included in the latest block
+    pendingNonce: nat64, // Including the node's contiguous pending transactions
+    nextNonce: nat64, // Nonce the next reservation would receive
+    reservedNonces: Vec(nat64), // Handed out and not yet seen broadcast
+    gaps: Vec(nat64), // Missing nonces that keep later transactions queued
+    stuckTransactions: Vec(StuckTransaction)
+});
+
+/** Request to speed up or cancel a pending transaction */
+const ReplacementRequest = Record({
+    chainId: nat64,
+    txHash: text, // The pending transaction to replace
+    cancel: bool, // Zero-value self-send at the same nonce instead of a fee bump
+    feeBumpPercent: Opt(nat64) // Defaults to the node's minimum replacement bump
+});
+
+/** Unsigned replacement transaction for the sender to sign */
+const ReplacementDraft = Record({
+    unsignedTransaction: text, // Serialized unsigned transaction
+    nonce: nat64,
+    gasLimit: text,
+    maxFeePerGas: text, // Gas price for legacy transactions
+    maxPriorityFeePerGas: text, // Empty for legacy transactions
+    minMaxFeePerGas: text, // Lowest fee the node accepts as a replacement
+    minMaxPriorityFeePerGas: text
+});
+
+/** Transactions sharing one sender nonce and which of them was mined */
+const ReplacementFamilyResult = Record({
+    chainId: nat64,
+    from: text,
+    nonce: nat64,
+    transactions: Vec(text), // Oldest first
+    status: text, // PENDING, MINED, FAILED, REPLACED by a transaction outside the family, or UNKNOWN
+    minedTxHash: text
+});
+
+/** Lifecycle of a transaction broadcast through the canister */
+const TrackedTransaction = Record({
+    trackingId: text,
+    chainId: nat64,
+    txHash: text, // Follows speed-up and cancel replacements
+    status: text, // SUBMITTED, PENDING, MINED, CONFIRMED, FAILED, DROPPED, REPLACED or UNKNOWN
+    confirmations: nat64,
+    blockNumber: nat64,
+    revertReason: text,
+    submittedAt: nat64,
+    updatedAt: nat64
+});
+
+/** EIP-712 typed data, as JSON */
+const TypedDataParams = Record({
+    domain: text, // JSON domain (name, version, chainId, verifyingContract, salt)
+    types: text, // JSON struct types; an EIP712Domain entry is ignored
+    message: text // JSON message of the primary type
+});
+
+/** EIP-712 hashes of typed data */
+const TypedDataDigest = Record({
+    digest: text, // The hash that is signed
+    domainSeparator: text,
+    structHash: text,
+    primaryType: text
+});
+
+/** Parameters to verify an EIP-712 signature */
+const TypedDataSignatureParams = Record({
+    networkId: nat64, // Chain used for ERC-1271 checks of contract signers
+    typedData: TypedDataParams,
+    signature: text,
+    expectedSigner: text
+});
+
+/** Outcome of a signature verification */
+const SignatureVerificationResult = Record({
+    valid: bool,
+    method: text, // EOA or ERC1271
+    recoveredSigner: text // Empty if the signature is not a valid ECDSA signature
+});
+
+/** One read call of a batch */
+const BatchReadCall = Record({
+    contractType: text, // ABI to use: "erc20", "factory", "implementation", "nft", etc.
+    contractAddress: Opt(text), // Defaults to the configured address of contractType
+    methodName: text, // Function name, or full signature for overloaded functions
+    params: text // JSON array of parameters
+});
+
+/** Outcome of one read call of a batch */
+const BatchReadCallResult = Record({
+    success: bool,
+    result: text, // JSON of the decoded outputs
+    error: text
+});
+
+/** Outcomes of a batch of read calls, in request order */
+const BatchReadResult = Record({
+    method: text, // multicall3 or jsonrpc-batch
+    results: Vec(BatchReadCallResult)
+});
+
+/** Parameters to list a wallet's ERC-20 approvals */
+const ApprovalsParams = Record({
+    networkId: nat64,
+    wallet: text,
+    tokenAddresses: Opt(Vec(text)), // None for the tokens registered for the chain in the tokens canister
+    fromBlock: nat64 // First block to scan for Approval logs: the wallet's deployment block, then the previous nextFromBlock
+});
+
+/** A current nonzero ERC-20 allowance */
+const TokenApproval = Record({
+    token: text,
+    symbol: text,
+    decimals: nat64,
+    spender: text,
+    allowance: text, // Raw token units
+    unlimited: bool,
+    lastApprovalBlock: nat64
+});
+
+/** Nonzero allowances of a wallet and the block range their logs were taken from */
+const ApprovalsResult = Record({
+    wallet: text,
+    approvals: Vec(TokenApproval),
+    scannedFromBlock: nat64,
+    scannedToBlock: nat64,
+    truncated: bool, // The scan stopped before the chain head; call again from nextFromBlock
+    nextFromBlock: nat64
+});
+
+/** Allowance to revoke */
+const RevokeRequest = Record({
+    token: text,
+    spender: text
+});
+
+/** Unsigned calls that set an allowance to zero */
+const RevokePayload = Record({
+    token: text,
+    spender: text,
+    approveData: text, // approve(spender, 0), e.g. for buildUserOperation with target = token
+    to: text, // The smart account
+    data: text // approve(spender, 0) wrapped in the smart account execute call
+});
+
+/** Transaction to dry-run, either a signed transaction or explicit call fields */
+const SimulationParams = Record({
+    networkId: nat64,
+    signedTransaction: Opt(text), // When set, the call fields below are ignored
+    from: Opt(text),
+    to: Opt(text),
+    value: Opt(text), // Wei
+    data: Opt(text)
+});
+
+/** Expected ERC-20 balance change of an account */
+const BalanceChange = Record({
+    token: text,
+    account: text,
+    delta: text // Signed raw token units
+});
+
+/** Outcome of a dry run at the pending block */
+const SimulationResult = Record({
+    success: bool,
+    revertReason: text,
+    gasEstimate: text, // "0" if the call reverts
+    balanceChanges: Vec(BalanceChange),
+    balanceChangesAvailable: bool // False if the node does not support debug_traceCall
+});
+
+/** A transaction signed with a user's threshold ECDSA key */
+const CanisterSignedTransaction = Record({
+    signedTransaction: text,
+    txHash: text,
+    from: text
+});
+
+/** Token registered in the tokens canister */
+const RegisteredToken = Record({
+    id: nat,
+    name: text,
+    chain_id: nat,
+    decimals: nat,
+    logo: Opt(text),
+    address: text,
+    symbol: text
+});
+
+/** Interface of the tokens canister used by this service */
+const TokensCanister = Canister({
+    getTokensByChainId: query([nat], Vec(RegisteredToken))
+});
+
 /** Generic Result type for operations that can succeed or fail */
 const Result = <T extends CandidType>(type: T) => Variant({
     Ok: type,
@@ -159,310 +638,3965 @@ let chatterPayContracts: { [networkId: number]: {
     // Can add any network: Ethereum, Polygon, Arbitrum, etc.
 };
 
-/** Contract ABIs by contract type */
-let contractABIs: { [contractType: string]: string } = {
-    factory: "",
-    implementation: "",
-    nft: "",
-    paymaster: "",
-    entryPoint: ""
-};
+/**
+ * Contract ABIs by contract type, then version label
+ * Versions are immutable once registered; `latest` is the most recently registered one
+ */
+let contractABIs: { [contractType: string]: {
+    versions: { [version: string]: {
+        abi: string; // Normalized JSON
+        iface: ethers.Interface;
+        registeredAt: number;
+    }};
+    latest: string;
+}} = {};
 
 /**
- * ChatterPay EVM Service Canister
- * 
- * Provides unified contract management and blockchain interaction capabilities
- * for the ChatterPay ecosystem across multiple EVM-compatible networks.
+ * Chainlink USD price feeds by network ID, then lowercase token address or "native"
+ * Used to quote fees in ERC-20 tokens
  */
-export default Canister({
-    /**
-     * Initialize the canister owner
-     * Can only be called once when OWNER is null
-     * @returns The owner principal ID or error message
-     */
-    initializeOwner: update([], Result(text), () => {
-        if (OWNER !== null) {
-            return { Err: "Owner already initialized" };
-        }
-        OWNER = ic.caller().toString();
-        return { Ok: OWNER };
-    }),
+let priceFeeds: { [networkId: number]: { [asset: string]: string } } = {};
 
-    /**
-     * Transfer ownership to a new principal
-     * @param newOwner - The new owner's principal ID
-     * @returns Success boolean or error message
-     */
-    setOwner: update([text], Result(bool), (newOwner: string) => {
-        if (OWNER === null) {
-            return { Err: "Owner not initialized. Call initializeOwner first." };
-        }
-        if (ic.caller().toString() !== OWNER) {
-            return { Err: "Only current owner can transfer ownership" };
-        }
-        OWNER = newOwner;
-        return { Ok: true };
-    }),
+/** ABI version pinned per network deployment: network ID, then contract type */
+let abiPins: { [networkId: number]: { [contractType: string]: string } } = {};
 
-    /**
-     * Get the current owner principal ID
-     * @returns The owner principal ID or empty string if not set
-     */
-    getOwner: query([], text, () => OWNER || ""),
+/** Account proxy the factory deploys, by network ID; needed to compute CREATE2 addresses */
+let accountProxyCode: { [networkId: number]: AccountProxyCode } = {};
 
-    /**
-     * Update contract addresses for a specific network
-     * Only the owner can perform this operation
-     * @param networkId - The network ID (e.g., 534352 for Scroll)
-     * @param contracts - Object containing contract addresses
-     * @returns Success boolean or error message
-     */
-    updateNetworkContracts: update([nat64, Record({
-        factory: text,
-        implementation: text,
-        nft: text,
-        paymaster: text,
-        entryPoint: text
-    })], Result(bool), (networkId: bigint, contracts: any) => {
-        if (OWNER === null) {
-            return { Err: "Owner not initialized" };
-        }
-        if (ic.caller().toString() !== OWNER) {
-            return { Err: "Only owner can update contracts" };
-        }
-        
-        chatterPayContracts[Number(networkId)] = {
-            factory: contracts.factory || undefined,
-            implementation: contracts.implementation || undefined,
-            nft: contracts.nft || undefined,
-            paymaster: contracts.paymaster || undefined,
-            entryPoint: contracts.entryPoint || undefined
-        };
-        return { Ok: true };
-    }),
+/** Paymaster sponsorship policy, amounts in wei */
+let sponsorshipPolicy: {
+    enabled: boolean;
+    userDailyBudget: bigint;
+    globalCeiling: bigint;
+    globalSpent: bigint;
+    networks: { [networkId: number]: {
+        cap: bigint;
+        spent: bigint;
+        allowedTargets: string[];
+        allowedSelectors: string[];
+    }};
+} = {
+    enabled: false,
+    userDailyBudget: 0n,
+    globalCeiling: 0n,
+    globalSpent: 0n,
+    networks: {}
+};
 
-    /**
-     * Update contract ABIs for all contract types
-     * Only the owner can perform this operation
-     * @param abis - Object containing ABI JSON strings for each contract type
-     * @returns Success boolean or error message
-     */
-    updateABIs: update([Record({
-        factory: text,
-        implementation: text,
-        nft: text,
-        paymaster: text,
-        entryPoint: text
-    })], Result(bool), (abis: any) => {
-        if (OWNER === null) {
-            return { Err: "Owner not initialized" };
-        }
-        if (ic.caller().toString() !== OWNER) {
-            return { Err: "Only owner can update ABIs" };
-        }
-        
-        contractABIs.factory = abis.factory;
-        contractABIs.implementation = abis.implementation;
-        contractABIs.nft = abis.nft;
-        contractABIs.paymaster = abis.paymaster;
-        contractABIs.entryPoint = abis.entryPoint;
-        return { Ok: true };
-    }),
+/** Sponsored gas spend by `${day}_${networkId}_${owner}` */
+let sponsorshipUsage = new Map<string, bigint>();
 
-    /**
-     * Get contract addresses for a specific network
-     * @param networkId - The network ID to get contracts for
-     * @returns Object containing contract addresses for the network
-     */
-    getNetworkContracts: query([nat64], Record({
-        factory: text,
-        implementation: text,
-        nft: text,
-        paymaster: text,
-        entryPoint: text
-    }), (networkId: bigint) => {
-        const contracts = chatterPayContracts[Number(networkId)] || {};
-        return {
-            factory: contracts.factory || "",
-            implementation: contracts.implementation || "",
-            nft: contracts.nft || "",
-            paymaster: contracts.paymaster || "",
-            entryPoint: contracts.entryPoint || ""
-        };
-    }),
+/** Sponsored UserOperations whose charge is settled once the receipt arrives */
+let sponsoredOperations = new Map<string, {
+    chainId: number;
+    usageKey: string;
+    charged: bigint;
+    submittedAt: number;
+}>();
 
-    /**
-     * Get all supported network IDs
-     * @returns Array of network IDs that have been configured
-     */
-    getSupportedNetworks: query([], text, () => {
-        return JSON.stringify(Object.keys(chatterPayContracts).map(id => BigInt(id)));
-    }),
+/** Seconds between settlement passes over sponsored UserOperations */
+const SPONSORSHIP_SETTLEMENT_INTERVAL_SECONDS = 30n;
 
-    /**
-     * Create a new user wallet using the factory contract
-     * @param networkId - The network ID where the wallet should be created
-     * @param userHash - Unique hash identifier for the user
-     * @param salt - Random salt for wallet address generation
-     * @returns The predicted wallet address or error message
-     */
-    createUserWallet: update([nat64, text, text], Result(text), async (networkId: bigint, userHash: string, salt: string) => {
-        try {
-            const contracts = chatterPayContracts[Number(networkId)];
-            if (!contracts?.factory) {
-                return { Err: "Factory contract not configured for this network" };
-            }
+/** How long a sponsored UserOperation may wait for its receipt before the worst-case charge stands */
+const SPONSORED_OPERATION_TTL = 60 * 60 * 1000; // 1 hour
 
-            const provider = getProvider(Number(networkId));
-            const factoryABI = contractABIs.factory;
-            
-            if (!factoryABI) {
-                return { Err: "Factory ABI not configured" };
-            }
+/** Settlement timer, running while sponsored UserOperations are unsettled */
+let sponsorshipTimer: bigint | null = null;
 
-            // For now, return predicted address (implement actual factory call later)
-            const predictedAddress = ethers.getCreateAddress({
-                from: contracts.factory,
-                nonce: parseInt(userHash + salt, 16) % 1000000
-            });
+/**
+ * Threshold ECDSA key used for user signers
+ * dfx_test_key on a local replica, test_key_1 or key_1 on mainnet
+ */
+let ecdsaKeyName = process.env.ECDSA_KEY_NAME || "dfx_test_key";
 
-            return { Ok: predictedAddress };
-        } catch (error: unknown) {
+/** Derived signer addresses by derivation path (hex segments joined with "/") */
+let signerAddresses = new Map<string, string>();
+
+/** Tokens canister ID, from dfx or set by the owner */
+let tokensCanisterId: string | null = process.env.CANISTER_ID_TOKENS || null;
+
+/** ENS-compatible registries used for names on chains other than mainnet, by chain ID */
+let nameRegistries: { [chainId: number]: string } = {};
+
+/** Reverse lookup cache by `${chainId}_${address}` */
+let nameCache = new Map<string, { name: string; timestamp: number }>();
+const NAME_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+
+/** Whether the chain's RPC supports debug_traceCall, by chain ID */
+let traceCallSupported = new Map<number, boolean>();
+
+/** Whether Multicall3 is deployed, by chain ID */
+let multicallDeployed = new Map<number, boolean>();
+
+/**
+ * Transactions seen by the canister, by `${chainId}_${txHash}`
+ * Keeps sender and nonce so dropped and replaced transactions can be told apart
+ * once the node forgets the original hash
+ */
+let observedTransactions = new Map<string, {
+    from: string;
+    nonce: number;
+    firstSeenBlock: number;
+    observedAt: number;
+}>();
+const OBSERVED_TX_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Nonces handed out or broadcast per account, by `${chainId}_${address}`
+ * Lets concurrent requests from one sender sign with distinct nonces
+ */
+let nonceTrackers = new Map<string, Map<number, {
+    reservedAt: number;
+    reservedBy?: string; // Principal that reserved the nonce
+    txHash?: string;
+    broadcastAt?: number;
+}>>();
+const NONCE_RESERVATION_TTL = 2 * 60 * 1000; // 2 minutes
+
+/**
+ * Principals besides the owner allowed to reserve nonces
+ * Reserved nonces widen the nonce range signed transactions may use, so reservations
+ * are limited to trusted callers
+ */
+let nonceManagers = new Set<string>();
+const STUCK_TRANSACTION_AGE = 3 * 60 * 1000; // 3 minutes since broadcast
+
+/**
+ * Transactions broadcast through the canister, by tracking ID
+ * Advanced by the reconciler timer until they reach a final state
+ */
+type TrackedTx = {
+    trackingId: string;
+    chainId: number;
+    txHash: string;
+    status: string;
+    confirmations: number;
+    blockNumber: number;
+    revertReason: string;
+    submittedAt: number;
+    updatedAt: number;
+};
+let trackedTransactions = new Map<string, TrackedTx>();
+let trackingIdCounter = 0;
+const FINAL_TRACKING_STATES = ['CONFIRMED', 'FAILED', 'DROPPED', 'REPLACED', 'UNKNOWN'];
+const TRACKING_INTERVAL_SECONDS = 15n;
+const TRACKING_DROP_GRACE = 2 * 60 * 1000; // 2 minutes for the broadcast to reach the node's pool
+
+/** Reconciler timer, started on init and after upgrades */
+let trackingTimer: bigint | null = null;
+
+/**
+ * Original transactions and their replacements, by `${chainId}_${from}_${nonce}`
+ * Fees are kept so each replacement can be checked against the one it replaces
+ */
+let replacementFamilies = new Map<string, {
+    chainId: number;
+    from: string;
+    nonce: number;
+    call: { to: string | null; value: bigint; data: string }; // The original call, kept by speed-ups
+    transactions: { hash: string; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint | null }[];
+    firstSeenBlock: number;
+    createdAt: number;
+}>();
+
+/** ERC-4337 bundler RPC URLs by network ID */
+let bundlerUrls: { [networkId: number]: string } = {};
+
+/** Built UserOperations waiting for a signature, by userOpHash */
+let pendingUserOperations = new Map<string, {
+    chainId: number;
+    entryPoint: string;
+    userOperation: UserOp;
+    sponsorship?: { owner: string; target: string; data: string };
+    createdAt: number;
+}>();
+const USER_OPERATION_TTL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Helper Functions
+ */
+
+/** Factory getters returning the account implementation behind its proxies */
+const FACTORY_IMPLEMENTATION_GETTERS = ["walletImplementation", "accountImplementation", "implementation"];
+
+/**
+ * Parse and validate an ABI given as a JSON array of JSON or human-readable fragments
+ * @param abi - The ABI string
+ * @returns The parsed Interface
+ * @throws Error naming the first invalid fragment
+ */
+function parseABI(abi: string): ethers.Interface {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(abi);
+    } catch {
+        throw new Error("ABI is not valid JSON");
+    }
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+        throw new Error("ABI must be a non-empty JSON array");
+    }
+
+    // Interface skips invalid fragments with a warning, so check each one first
+    const fragments: Array<ethers.JsonFragment | string> = parsed.map((fragment: unknown, index) => {
+        if (typeof fragment !== "string" && (typeof fragment !== "object" || fragment === null || Array.isArray(fragment))) {
+            throw new Error(`Invalid ABI fragment ${index}: expected an object or a human-readable signature`);
+        }
+        try {
+            ethers.Fragment.from(fragment);
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Invalid ABI fragment ${index}: ${message}`);
+        }
+        return fragment;
+    });
+    return new ethers.Interface(fragments);
+}
+
+/**
+ * Resolve which ABI version applies: the network's pinned version, else the latest
+ * @param contractType - Contract type key in contractABIs
+ * @param chainId - The network the ABI is used on, if any
+ * @returns The version label, or undefined if no ABI is registered
+ */
+function resolveABIVersion(contractType: string, chainId?: number): string | undefined {
+    const entry = contractABIs[contractType];
+    if (!entry) {
+        return undefined;
+    }
+    return (chainId !== undefined && abiPins[chainId]?.[contractType]) || entry.latest;
+}
+
+/**
+ * Get the Interface of a contract type as deployed on a network
+ * @param contractType - Contract type key in contractABIs
+ * @param chainId - The network the contract lives on
+ * @returns The parsed Interface
+ * @throws Error if the ABI is not configured
+ */
+function getContractInterface(contractType: string, chainId?: number): ethers.Interface {
+    const version = resolveABIVersion(contractType, chainId);
+    const registered = version !== undefined ? contractABIs[contractType].versions[version] : undefined;
+    if (!registered) {
+        throw new Error(`ABI not configured for ${contractType}`);
+    }
+    return registered.iface;
+}
+
+/**
+ * Describe a registered ABI version for the Candid interface
+ * @param contractType - Contract type key in contractABIs
+ * @param version - Registered version label
+ * @returns Signatures of the functions, events and errors in the ABI
+ */
+function describeABI(contractType: string, version: string) {
+    const registered = contractABIs[contractType].versions[version];
+    const functions: string[] = [];
+    const events: string[] = [];
+    const errors: string[] = [];
+    registered.iface.forEachFunction(fragment => functions.push(fragment.format("full")));
+    registered.iface.forEachEvent(fragment => events.push(fragment.format("full")));
+    registered.iface.forEachError(fragment => errors.push(fragment.format("full")));
+
+    return {
+        contractType,
+        version,
+        registeredAt: BigInt(registered.registeredAt),
+        abi: registered.abi,
+        functions,
+        events,
+        errors
+    };
+}
+
+/**
+ * Register a new ABI version for a contract type and make it the latest
+ * @param contractType - Contract type key, e.g. "factory" or "erc20"
+ * @param version - Version label
+ * @param abi - ABI as a JSON array
+ * @throws Error if the ABI is invalid or the version exists with a different ABI
+ */
+function registerContractABI(contractType: string, version: string, abi: string) {
+    if (!/^[A-Za-z0-9_-]+$/.test(contractType)) {
+        throw new Error("Contract type may only contain letters, digits, '_' and '-'");
+    }
+    if (!version.trim()) {
+        throw new Error("Version label is required");
+    }
+
+    const iface = parseABI(abi);
+    const normalized = iface.formatJson();
+    const entry = contractABIs[contractType] || { versions: {}, latest: version };
+    const existing = entry.versions[version];
+    if (existing && existing.abi !== normalized) {
+        throw new Error(`${contractType} ABI version ${version} is already registered with a different ABI`);
+    }
+
+    if (!existing) {
+        entry.versions[version] = { abi: normalized, iface, registeredAt: Date.now() };
+    }
+    entry.latest = version;
+    contractABIs[contractType] = entry;
+}
+
+/**
+ * Parse a salt given as decimal or 0x-prefixed hex into a uint256
+ * @param salt - The salt string
+ * @returns The salt as bigint
+ * @throws Error if the salt is not a valid uint256
+ */
+function parseSalt(salt: string): bigint {
+    const value = BigInt(salt.trim() || "0");
+    if (value < 0n || value > ethers.MaxUint256) {
+        throw new Error("Salt out of uint256 range");
+    }
+    return value;
+}
+
+/**
+ * Predict the counterfactual address of a ChatterPay smart account
+ * The CREATE2 address is computed locally from the factory, the salt and the init code
+ * of the configured account proxy; only the implementation check and the deployment
+ * status read the chain.
+ * @param chainId - The chain where the account lives
+ * @param owner - The account owner address
+ * @param salt - The account salt
+ * @returns The predicted address, the contracts used and whether code exists there
+ */
+async function predictWalletAddress(chainId: number, owner: string, salt: bigint): Promise<{
+    address: string;
+    factory: string;
+    implementation: string;
+    deployed: boolean;
+}> {
+    const contracts = chatterPayContracts[chainId];
+    if (!contracts?.factory) {
+        throw new Error("Factory contract not configured for this network");
+    }
+    if (!contracts.implementation) {
+        throw new Error("Implementation contract not configured for this network");
+    }
+    const proxy = accountProxyCode[chainId];
+    if (!proxy) {
+        throw new Error("Account proxy code not configured for this network");
+    }
+
+    const provider = getProvider(chainId);
+    const factory = new ethers.Contract(contracts.factory, getContractInterface("factory", chainId), provider);
+
+    // Refuse to predict against a factory that deploys a different implementation
+    const implementationGetter = FACTORY_IMPLEMENTATION_GETTERS.find(name => factory.interface.getFunction(name) !== null);
+    if (implementationGetter) {
+        const factoryImplementation: string = await factory.getFunction(implementationGetter).staticCall();
+        if (ethers.getAddress(factoryImplementation) !== ethers.getAddress(contracts.implementation)) {
+            throw new Error(`Factory deploys implementation ${factoryImplementation}, expected ${contracts.implementation}`);
+        }
+    }
+
+    const address = computeWalletAddress(
+        contracts.factory,
+        proxy,
+        contracts.implementation,
+        owner,
+        salt,
+        getFactorySaltScheme(factory.interface)
+    );
+    const code = await provider.getCode(address);
+
+    return {
+        address,
+        factory: ethers.getAddress(contracts.factory),
+        implementation: ethers.getAddress(contracts.implementation),
+        deployed: code !== "0x"
+    };
+}
+
+/**
+ * Factory functions that deploy an account.
+ * `createAccount(owner, salt)` is the ERC-4337 SimpleAccountFactory convention,
+ * `createProxy(owner)` is the ChatterPay factory, which salts by owner.
+ */
+const FACTORY_CREATE_FUNCTIONS = ["createAccount", "createProxy"];
+
+/**
+ * Get the create function a factory ABI exposes
+ * @param factoryInterface - The factory Interface
+ * @returns The create function fragment
+ * @throws Error if the ABI exposes none of FACTORY_CREATE_FUNCTIONS
+ */
+function getFactoryCreateFunction(factoryInterface: ethers.Interface): ethers.FunctionFragment {
+    const createFunction = FACTORY_CREATE_FUNCTIONS
+        .map(name => factoryInterface.getFunction(name))
+        .find(fragment => fragment !== null);
+    if (!createFunction) {
+        throw new Error(`Factory ABI does not expose ${FACTORY_CREATE_FUNCTIONS.join(" or ")}`);
+    }
+    return createFunction;
+}
+
+/**
+ * Get how a factory salts CREATE2, from whether its create function takes a salt
+ * @param factoryInterface - The factory Interface
+ * @returns The salt scheme
+ */
+function getFactorySaltScheme(factoryInterface: ethers.Interface): SaltScheme {
+    return getFactoryCreateFunction(factoryInterface).inputs.length > 1 ? "salt" : "owner";
+}
+
+/**
+ * Unwrap a Candid optional value
+ * @param value - Candid Opt value ({ Some } or { None })
+ * @returns The contained value or undefined
+ */
+function fromOpt<T>(value: { Some?: T; None?: null } | undefined): T | undefined {
+    return value?.Some;
+}
+
+/**
+ * Get a JSON-RPC client for the bundler of a chain
+ * @param chainId - The chain ID to get the bundler for
+ * @returns A JsonRpcProvider bound to the bundler URL
+ * @throws Error if no bundler is configured
+ */
+function getBundler(chainId: number): JsonRpcProvider {
+    const url = bundlerUrls[chainId];
+    if (!url) {
+        throw new Error(`Bundler not configured for chain ID: ${chainId}`);
+    }
+    return new JsonRpcProvider(url, chainId, { staticNetwork: true });
+}
+
+/** Maximum number of blocks scanned when looking for a replacement transaction */
+const REPLACEMENT_SCAN_BLOCKS = 128;
+
+/** Blocks fetched in one JSON-RPC batch while scanning for a replacement */
+const REPLACEMENT_SCAN_BATCH = 16;
+
+/**
+ * Remember a transaction's sender and nonce for later status lookups
+ * @param chainId - The chain the transaction was sent to
+ * @param tx - The transaction as returned by the node
+ */
+async function rememberTransaction(chainId: number, tx: TransactionResponse) {
+    const now = Date.now();
+    for (const [key, observed] of observedTransactions.entries()) {
+        if (now - observed.observedAt > OBSERVED_TX_TTL) {
+            observedTransactions.delete(key);
+        }
+    }
+
+    const key = `${chainId}_${tx.hash.toLowerCase()}`;
+    if (!observedTransactions.has(key)) {
+        observedTransactions.set(key, {
+            from: tx.from,
+            nonce: tx.nonce,
+            firstSeenBlock: tx.blockNumber ?? await getProvider(chainId).getBlockNumber(),
+            observedAt: now
+        });
+    }
+}
+
+/**
+ * Decode revert data with the built-in errors and every configured ABI
+ * @param data - Revert data returned by the node
+ * @returns Human-readable revert reason, or the raw data if no ABI matches
+ */
+function decodeRevertData(data: string): string {
+    if (!data || data === "0x") {
+        return "";
+    }
+
+    const interfaces = [
+        new ethers.Interface([]),
+        ...Object.values(contractABIs).flatMap(entry => Object.values(entry.versions).map(registered => registered.iface))
+    ];
+    for (const iface of interfaces) {
+        try {
+            const parsed = iface.parseError(data);
+            if (parsed) {
+                return parsed.name === "Error"
+                    ? String(parsed.args[0])
+                    : `${parsed.name}(${parsed.args.toArray().map(arg => String(arg)).join(", ")})`;
+            }
+        } catch {
+            // ABI does not describe this error, try the next one
+        }
+    }
+    return data;
+}
+
+/**
+ * Extract the revert reason from an error thrown by eth_call
+ * @param error - The thrown error
+ * @returns The decoded revert reason, or the error message if the call did not revert
+ */
+function getCallExceptionReason(error: unknown): string {
+    if (ethers.isCallException(error)) {
+        return decodeRevertData(error.data ?? "") || error.reason || error.shortMessage;
+    }
+    return error instanceof Error ? error.message : "";
+}
+
+/**
+ * Recover the revert reason of a mined, failed transaction by replaying it at its block
+ * @param provider - Provider of the chain the transaction was mined on
+ * @param tx - The failed transaction
+ * @param blockNumber - Block the transaction was mined in
+ * @returns The decoded revert reason, or empty string if the replay does not revert
+ */
+async function getRevertReason(provider: JsonRpcProvider, tx: TransactionResponse, blockNumber: number): Promise<string> {
+    try {
+        await provider.call({
+            from: tx.from,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value,
+            gasLimit: tx.gasLimit,
+            blockTag: blockNumber
+        });
+        return "";
+    } catch (error: unknown) {
+        return getCallExceptionReason(error);
+    }
+}
+
+/**
+ * Find the transaction that consumed a sender's nonce instead of the original one
+ * @param provider - Provider of the chain to scan
+ * @param from - Sender of the original transaction
+ * @param nonce - Nonce of the original transaction
+ * @param fromBlock - First block that may contain the replacement
+ * @returns The replacement hash, or null if it is not within the scan window
+ */
+async function findReplacementTransaction(provider: JsonRpcProvider, from: string, nonce: number, fromBlock: number): Promise<string | null> {
+    const latest = await provider.getBlockNumber();
+    const start = Math.max(fromBlock, latest - REPLACEMENT_SCAN_BLOCKS + 1);
+    for (let batchStart = start; batchStart <= latest; batchStart += REPLACEMENT_SCAN_BATCH) {
+        const blockNumbers: number[] = [];
+        for (let blockNumber = batchStart; blockNumber <= Math.min(latest, batchStart + REPLACEMENT_SCAN_BATCH - 1); blockNumber++) {
+            blockNumbers.push(blockNumber);
+        }
+
+        // Requests made in the same tick go out as one JSON-RPC batch
+        const blocks = await Promise.all(blockNumbers.map(blockNumber => provider.getBlock(blockNumber, true)));
+        for (const block of blocks) {
+            const replacement = block?.prefetchedTransactions.find(tx =>
+                tx.from.toLowerCase() === from.toLowerCase() && tx.nonce === nonce
+            );
+            if (replacement) {
+                return replacement.hash;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Get the current state of a transaction without waiting for it to be mined
+ * Read-only: transactions are remembered for dropped/replaced detection by the
+ * update calls that broadcast or look them up, not here.
+ * @param chainId - The chain the transaction was sent to
+ * @param txHash - The transaction hash
+ * @returns The transaction state, or null if the transaction is unknown
+ */
+async function getTransactionState(chainId: number, txHash: string) {
+    const provider = getProvider(chainId);
+    const base = {
+        txHash,
+        chainId: BigInt(chainId),
+        confirmations: 0n,
+        blockNumber: 0n,
+        gasUsed: "0",
+        effectiveGasPrice: "0",
+        revertReason: "",
+        replacedBy: ""
+    };
+
+    const [tx, receipt] = await Promise.all([
+        provider.getTransaction(txHash),
+        provider.getTransactionReceipt(txHash)
+    ]);
+
+    if (receipt) {
+        const failed = receipt.status !== 1;
+        const confirmations = await receipt.confirmations();
+        const final = confirmations >= (chainRegistry.get(chainId)?.confirmations ?? 1);
+        return {
+            ...base,
+            status: failed ? 'FAILED' : final ? 'CONFIRMED' : 'MINED',
+            confirmations: BigInt(confirmations),
+            blockNumber: BigInt(receipt.blockNumber),
+            gasUsed: receipt.gasUsed.toString(),
+            effectiveGasPrice: (receipt.gasPrice || 0n).toString(),
+            revertReason: failed && tx ? await getRevertReason(provider, tx, receipt.blockNumber) : ""
+        };
+    }
+
+    if (tx) {
+        return { ...base, status: 'PENDING' };
+    }
+
+    // The node no longer knows the hash: decide from the sender's nonce
+    const observed = observedTransactions.get(`${chainId}_${txHash.toLowerCase()}`);
+    if (!observed) {
+        return null;
+    }
+
+    const minedNonce = await provider.getTransactionCount(observed.from, "latest");
+    if (minedNonce <= observed.nonce) {
+        return { ...base, status: 'DROPPED' };
+    }
+
+    // The nonce was used, but by a transaction outside the scan window
+    const replacedBy = await findReplacementTransaction(provider, observed.from, observed.nonce, observed.firstSeenBlock);
+    if (!replacedBy) {
+        return { ...base, status: 'UNKNOWN' };
+    }
+    return { ...base, status: 'REPLACED', replacedBy };
+}
+
+/**
+ * Build the factory initCode that deploys a smart account on its first operation
+ * @param chainId - The chain where the account is deployed
+ * @param owner - The account owner address
+ * @param salt - The account salt
+ * @returns Factory address concatenated with the create calldata
+ */
+function buildInitCode(chainId: number, owner: string, salt: bigint): string {
+    const factoryAddress = chatterPayContracts[chainId]?.factory;
+    if (!factoryAddress) {
+        throw new Error("Factory contract not configured for this network");
+    }
+
+    const factoryInterface = getContractInterface("factory", chainId);
+    const createFunction = getFactoryCreateFunction(factoryInterface);
+    const args = createFunction.inputs.length > 1 ? [owner, salt] : [owner];
+    return ethers.concat([factoryAddress, factoryInterface.encodeFunctionData(createFunction, args)]);
+}
+
+/** Milliseconds in a sponsorship budget day (UTC) */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the worst-case gas cost an EntryPoint v0.6 charges for a UserOperation
+ * Verification gas counts three times when a paymaster is attached (validation + postOp)
+ * @param userOperation - The UserOperation
+ * @returns Maximum gas cost in wei
+ */
+function getMaxGasCost(userOperation: UserOp): bigint {
+    const verificationMultiplier = userOperation.paymasterAndData === "0x" ? 1n : 3n;
+    const gas = userOperation.callGasLimit
+        + userOperation.verificationGasLimit * verificationMultiplier
+        + userOperation.preVerificationGas;
+    return gas * userOperation.maxFeePerGas;
+}
+
+/**
+ * Get the key tracking an account owner's sponsored spend for today
+ * Spend is per owner so that one user's accounts share a budget.
+ */
+function getSponsorshipUsageKey(chainId: number, owner: string): string {
+    return `${Math.floor(Date.now() / DAY_MS)}_${chainId}_${owner.toLowerCase()}`;
+}
+
+/**
+ * Decide whether the paymaster sponsors an operation
+ * The limits are enforced on chain because the paymaster only accepts operations
+ * carrying an approval signed by the canister's paymaster key (see buildUserOperation).
+ * @param chainId - The chain of the operation
+ * @param owner - Owner of the smart account sending the operation
+ * @param target - The contract or recipient called through execute
+ * @param data - The calldata forwarded to target
+ * @param maxGasCost - Worst-case gas cost in wei
+ * @returns Approved with the paymaster, or Rejected with a code and reason
+ */
+function evaluateSponsorshipPolicy(chainId: number, owner: string, target: string, data: string, maxGasCost: bigint):
+    { Approved: { paymaster: string; maxGasCost: string } } | { Rejected: { code: string; reason: string } } {
+    const reject = (code: string, reason: string) => ({ Rejected: { code, reason } });
+
+    if (!sponsorshipPolicy.enabled) {
+        return reject("POLICY_DISABLED", "Gas sponsorship is disabled");
+    }
+
+    const paymaster = chatterPayContracts[chainId]?.paymaster;
+    if (!paymaster) {
+        return reject("PAYMASTER_NOT_CONFIGURED", "Paymaster contract not configured for this network");
+    }
+
+    const rules = sponsorshipPolicy.networks[chainId];
+    if (!rules) {
+        return reject("NETWORK_NOT_SPONSORED", `No sponsorship rules for chain ID ${chainId}`);
+    }
+
+    if (!rules.allowedTargets.includes(target.toLowerCase())) {
+        return reject("TARGET_NOT_ALLOWED", `Target ${target} is not sponsored`);
+    }
+
+    const selector = data && data !== "0x" ? ethers.dataSlice(data, 0, 4).toLowerCase() : "0x";
+    if (!rules.allowedSelectors.includes(selector)) {
+        return reject("SELECTOR_NOT_ALLOWED", `Method selector ${selector} is not sponsored on ${target}`);
+    }
+
+    const userSpent = sponsorshipUsage.get(getSponsorshipUsageKey(chainId, owner)) || 0n;
+    if (userSpent + maxGasCost > sponsorshipPolicy.userDailyBudget) {
+        return reject("USER_DAILY_BUDGET_EXCEEDED",
+            `Owner has ${sponsorshipPolicy.userDailyBudget - userSpent} wei of daily budget left, operation needs ${maxGasCost}`);
+    }
+
+    if (rules.spent + maxGasCost > rules.cap) {
+        return reject("NETWORK_CAP_EXCEEDED", `Network sponsorship cap of ${rules.cap} wei reached`);
+    }
+
+    if (sponsorshipPolicy.globalSpent + maxGasCost > sponsorshipPolicy.globalCeiling) {
+        return reject("GLOBAL_CEILING_EXCEEDED", `Global sponsorship ceiling of ${sponsorshipPolicy.globalCeiling} wei reached`);
+    }
+
+    return { Approved: { paymaster: ethers.getAddress(paymaster), maxGasCost: maxGasCost.toString() } };
+}
+
+/**
+ * Apply a sponsored gas charge (negative amounts refund) to every budget it counts against
+ */
+function recordSponsorshipSpend(chainId: number, usageKey: string, amount: bigint) {
+    // Drop per-sender usage from previous days
+    const today = Math.floor(Date.now() / DAY_MS);
+    for (const key of sponsorshipUsage.keys()) {
+        if (Number(key.split("_")[0]) < today) {
+            sponsorshipUsage.delete(key);
+        }
+    }
+
+    sponsorshipUsage.set(usageKey, (sponsorshipUsage.get(usageKey) || 0n) + amount);
+    sponsorshipPolicy.globalSpent += amount;
+    const rules = sponsorshipPolicy.networks[chainId];
+    if (rules) {
+        rules.spent += amount;
+    }
+}
+
+/**
+ * Resolve a function fragment by name or signature, picking overloads by argument count
+ * @param iface - Contract interface
+ * @param methodName - Function name, or full signature such as "safeTransferFrom(address,address,uint256)"
+ * @param args - Call arguments
+ * @returns The matching function fragment
+ * @throws Error if no function or more than one overload matches
+ */
+function resolveFunction(iface: ethers.Interface, methodName: string, args: unknown[]): ethers.FunctionFragment {
+    if (methodName.includes("(")) {
+        const fragment = iface.getFunction(methodName);
+        if (!fragment) {
+            throw new Error(`Function ${methodName} not found in ABI`);
+        }
+        return fragment;
+    }
+
+    const candidates: ethers.FunctionFragment[] = [];
+    iface.forEachFunction(fragment => {
+        if (fragment.name === methodName && fragment.inputs.length === args.length) {
+            candidates.push(fragment);
+        }
+    });
+
+    if (candidates.length === 0) {
+        throw new Error(`Function ${methodName} with ${args.length} parameters not found in ABI`);
+    }
+    if (candidates.length > 1) {
+        throw new Error(`Ambiguous overloaded function, use one of: ${candidates.map(fragment => fragment.format()).join(", ")}`);
+    }
+    return candidates[0];
+}
+
+/**
+ * Convert a decoded ABI value into plain JSON-safe data
+ * Named tuples become objects, unnamed tuples and arrays become arrays, integers become strings
+ * @param value - Value decoded by ethers
+ * @param type - ABI type of the value
+ * @returns JSON-serializable value
+ */
+function toJsonValue(value: any, type: ethers.ParamType): any {
+    if (type.isTuple()) {
+        const named = type.components.every(component => !!component.name);
+        const items = type.components.map((component, index) => toJsonValue(value[index], component));
+        return named
+            ? Object.fromEntries(type.components.map((component, index) => [component.name, items[index]]))
+            : items;
+    }
+    if (type.isArray()) {
+        return Array.from(value as ArrayLike<any>).map(item => toJsonValue(item, type.arrayChildren));
+    }
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+    return value;
+}
+
+/**
+ * Decode call output into JSON-safe data
+ * A single output is returned as is, several outputs as an object keyed by name (or index)
+ * @param iface - Contract interface
+ * @param fragment - The called function
+ * @param data - Raw return data
+ * @returns JSON-serializable outputs
+ */
+function decodeFunctionOutput(iface: ethers.Interface, fragment: ethers.FunctionFragment, data: string): any {
+    const result = iface.decodeFunctionResult(fragment, data);
+    if (fragment.outputs.length === 1) {
+        return toJsonValue(result[0], fragment.outputs[0]);
+    }
+    return Object.fromEntries(fragment.outputs.map((output, index) => [output.name || String(index), toJsonValue(result[index], output)]));
+}
+
+/** Gas limit ceiling for native transfers sent through transferSigned or broadcastReplacement */
+const MAX_TRANSFER_GAS_LIMIT = 500000n;
+
+/** Gas limit ceiling for contract calls sent through callContract or broadcastReplacement */
+const MAX_CONTRACT_CALL_GAS_LIMIT = 10000000n;
+
+/** Highest accepted fee per gas, as a multiple of the node's current fee */
+const MAX_FEE_MULTIPLIER = 5n;
+
+/** A field of a signed transaction that disagrees with the declared request */
+type TransactionMismatch = { field: string; declared: string; signed: string };
+
+/**
+ * Check a signed transaction against what the caller declared it to be
+ * Covers sender, recipient, value, calldata, chain ID, nonce window and gas caps
+ * @param chainId - The chain the transaction is declared for
+ * @param signedTransaction - Serialized signed transaction
+ * @param declared - Expected fields; from, value and data are only checked when given
+ * @returns The parsed transaction and every mismatching field
+ */
+async function verifySignedTransaction(chainId: number, signedTransaction: string, declared: {
+    from?: string;
+    to: string;
+    value?: bigint;
+    data?: string;
+    maxGasLimit: bigint;
+}): Promise<{ tx: ethers.Transaction; mismatches: TransactionMismatch[] }> {
+    const tx = ethers.Transaction.from(signedTransaction);
+    if (!tx.isSigned() || !tx.from) {
+        throw new Error("Transaction is not signed");
+    }
+
+    const mismatches: TransactionMismatch[] = [];
+    const check = (field: string, declaredValue: string, signedValue: string, matches: boolean) => {
+        if (!matches) {
+            mismatches.push({ field, declared: declaredValue, signed: signedValue });
+        }
+    };
+    const sameAddress = (a: string | null, b: string) => !!a && ethers.isAddress(b) && ethers.getAddress(a) === ethers.getAddress(b);
+
+    if (declared.from !== undefined) {
+        check("from", declared.from, tx.from, sameAddress(tx.from, declared.from));
+    }
+    check("to", declared.to, tx.to || "", sameAddress(tx.to, declared.to));
+    check("chainId", chainId.toString(), tx.chainId.toString(), tx.chainId === BigInt(chainId));
+    if (declared.value !== undefined) {
+        check("value", declared.value.toString(), tx.value.toString(), tx.value === declared.value);
+    }
+    if (declared.data !== undefined) {
+        check("data", declared.data, tx.data, tx.data.toLowerCase() === declared.data.toLowerCase());
+    }
+
+    const provider = getProvider(chainId);
+    const [minedNonce, pendingNonce, gasMismatches] = await Promise.all([
+        provider.getTransactionCount(tx.from, "latest"),
+        provider.getTransactionCount(tx.from, "pending"),
+        checkGasCaps(chainId, tx, declared.maxGasLimit)
+    ]);
+    check("nonce", `>= ${minedNonce}`, tx.nonce.toString(), tx.nonce >= minedNonce);
+    // Nonces past the pending one are accepted only if a trusted caller reserved them
+    const reserved = nonceTrackers.get(`${chainId}_${tx.from.toLowerCase()}`)?.has(tx.nonce) ?? false;
+    check("nonce", `<= ${pendingNonce} or reserved`, tx.nonce.toString(), tx.nonce <= pendingNonce || reserved);
+    mismatches.push(...gasMismatches);
+
+    return { tx, mismatches };
+}
+
+/**
+ * Check a signed transaction's gas limit and fee against the service caps
+ * @param chainId - The chain the transaction is sent on
+ * @param tx - The signed transaction
+ * @param maxGasLimit - Highest gas limit accepted for this kind of transaction
+ * @returns The gasLimit and maxFeePerGas mismatches
+ */
+async function checkGasCaps(chainId: number, tx: ethers.Transaction, maxGasLimit: bigint): Promise<TransactionMismatch[]> {
+    const mismatches: TransactionMismatch[] = [];
+    if (tx.gasLimit > maxGasLimit) {
+        mismatches.push({ field: "gasLimit", declared: `<= ${maxGasLimit}`, signed: tx.gasLimit.toString() });
+    }
+
+    const feeData = await getProvider(chainId).getFeeData();
+    const currentFee = feeData.maxFeePerGas ?? feeData.gasPrice;
+    const signedFee = tx.maxFeePerGas ?? tx.gasPrice;
+    if (currentFee && signedFee !== null && signedFee > currentFee * MAX_FEE_MULTIPLIER) {
+        mismatches.push({ field: "maxFeePerGas", declared: `<= ${currentFee * MAX_FEE_MULTIPLIER}`, signed: signedFee.toString() });
+    }
+    return mismatches;
+}
+
+/**
+ * Get the nonce tracker of an account, creating it when missing
+ * @param chainId - The chain of the account
+ * @param address - The account address
+ * @returns Tracked nonces of the account
+ */
+function getNonceTracker(chainId: number, address: string) {
+    const key = `${chainId}_${address.toLowerCase()}`;
+    let tracker = nonceTrackers.get(key);
+    if (!tracker) {
+        tracker = new Map();
+        nonceTrackers.set(key, tracker);
+    }
+    return tracker;
+}
+
+/**
+ * Sync an account's tracked nonces with the node
+ * Forgets mined nonces and reservations that were never broadcast in time
+ * @param chainId - The chain of the account
+ * @param address - The account address
+ * @returns The tracker with the node's mined and pending nonces
+ */
+async function reconcileNonces(chainId: number, address: string) {
+    const provider = getProvider(chainId);
+    const [minedNonce, pendingNonce] = await Promise.all([
+        provider.getTransactionCount(address, "latest"),
+        provider.getTransactionCount(address, "pending")
+    ]);
+
+    const tracker = getNonceTracker(chainId, address);
+    const now = Date.now();
+    for (const [nonce, entry] of tracker.entries()) {
+        if (nonce < minedNonce || (!entry.txHash && now - entry.reservedAt > NONCE_RESERVATION_TTL)) {
+            tracker.delete(nonce);
+        }
+    }
+
+    return { tracker, minedNonce, pendingNonce };
+}
+
+/**
+ * Lowest nonce that is neither pending on the node nor tracked
+ * @param tracker - Tracked nonces of the account
+ * @param pendingNonce - The node's pending transaction count
+ * @returns The next free nonce
+ */
+function getNextFreeNonce(tracker: Map<number, unknown>, pendingNonce: number): number {
+    let nonce = pendingNonce;
+    while (tracker.has(nonce)) {
+        nonce++;
+    }
+    return nonce;
+}
+
+/**
+ * Record that a transaction was broadcast with its nonce
+ * A later broadcast at the same nonce (a replacement) takes over the slot
+ * @param chainId - The chain the transaction was sent to
+ * @param tx - The broadcast transaction
+ */
+function recordNonceBroadcast(chainId: number, tx: TransactionResponse) {
+    const tracker = getNonceTracker(chainId, tx.from);
+    const now = Date.now();
+    tracker.set(tx.nonce, {
+        reservedAt: tracker.get(tx.nonce)?.reservedAt ?? now,
+        txHash: tx.hash,
+        broadcastAt: now
+    });
+}
+
+/** Minimum fee increase, in percent, nodes require to replace a pending transaction */
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+/**
+ * Raise a fee by a percentage, rounding up
+ * @param fee - The original fee
+ * @param percent - The increase in percent
+ * @returns The raised fee
+ */
+function bumpFee(fee: bigint, percent: bigint): bigint {
+    return (fee * (100n + percent) + 99n) / 100n;
+}
+
+/**
+ * Get the replacement family of a transaction, starting one when missing
+ * @param chainId - The chain the transaction was sent to
+ * @param tx - A member of the family
+ * @returns The family the transaction belongs to
+ */
+async function getReplacementFamily(chainId: number, tx: TransactionResponse) {
+    const now = Date.now();
+    for (const [key, family] of replacementFamilies.entries()) {
+        if (now - family.createdAt > OBSERVED_TX_TTL) {
+            replacementFamilies.delete(key);
+        }
+    }
+
+    const key = `${chainId}_${tx.from.toLowerCase()}_${tx.nonce}`;
+    let family = replacementFamilies.get(key);
+    if (!family) {
+        family = {
+            chainId,
+            from: tx.from,
+            nonce: tx.nonce,
+            call: { to: tx.to, value: tx.value, data: tx.data },
+            transactions: [],
+            firstSeenBlock: tx.blockNumber ?? await getProvider(chainId).getBlockNumber(),
+            createdAt: now
+        };
+        replacementFamilies.set(key, family);
+    }
+    if (!family.transactions.some(member => member.hash.toLowerCase() === tx.hash.toLowerCase())) {
+        family.transactions.push({
+            hash: tx.hash,
+            maxFeePerGas: tx.maxFeePerGas ?? tx.gasPrice,
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas
+        });
+    }
+    return family;
+}
+
+/**
+ * Find the replacement family containing a transaction hash
+ * @param chainId - The chain the transaction was sent to
+ * @param txHash - Hash of any member of the family
+ * @returns The family or undefined if the hash was never replaced through the canister
+ */
+function findReplacementFamily(chainId: number, txHash: string) {
+    for (const family of replacementFamilies.values()) {
+        if (family.chainId === chainId && family.transactions.some(member => member.hash.toLowerCase() === txHash.toLowerCase())) {
+            return family;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Explain how signed calldata differs from the declared call
+ * @param iface - Interface of the called contract
+ * @param fragment - The declared function
+ * @param expectedData - Calldata encoded from the declared method and params
+ * @param signedData - Calldata of the signed transaction
+ * @returns A methodName mismatch if another function is called, otherwise a params mismatch
+ */
+function describeCalldataMismatch(iface: ethers.Interface, fragment: ethers.FunctionFragment, expectedData: string, signedData: string): TransactionMismatch {
+    const signedCall = ethers.dataLength(signedData) >= 4 ? iface.parseTransaction({ data: signedData }) : null;
+    if (!signedCall || signedCall.fragment.format() !== fragment.format()) {
+        return {
+            field: "methodName",
+            declared: fragment.format(),
+            signed: signedCall?.fragment.format() || signedData.slice(0, 10)
+        };
+    }
+
+    const formatArgs = (args: ethers.Result) => JSON.stringify(fragment.inputs.map((input, index) => toJsonValue(args[index], input)));
+    return {
+        field: "params",
+        declared: formatArgs(iface.decodeFunctionData(fragment, expectedData)),
+        signed: formatArgs(signedCall.args)
+    };
+}
+
+/**
+ * Format transaction mismatches for an error message
+ */
+function formatMismatches(mismatches: TransactionMismatch[]): string {
+    return mismatches.map(m => `${m.field} (declared ${m.declared}, signed ${m.signed})`).join("; ");
+}
+
+/** Minimal ERC-20 interface used for transfers, balances and allowances */
+const ERC20_ABI = [
+    "function name() view returns (string)",
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function balanceOf(address owner) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)"
+];
+
+/** ERC-1271 `isValidSignature` for smart accounts whose ABI does not declare it */
+const ERC1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+
+/** Value ERC-1271 contracts return for a valid signature */
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+/**
+ * Parse EIP-712 typed data from its JSON parts
+ * @param typedData - Domain, types and message as JSON
+ * @returns Arguments for ethers' TypedDataEncoder
+ */
+function parseTypedData(typedData: { domain: string; types: string; message: string }) {
+    const domain = JSON.parse(typedData.domain);
+    const { EIP712Domain, ...types } = JSON.parse(typedData.types);
+    const message = JSON.parse(typedData.message);
+    if (typeof domain !== "object" || typeof message !== "object" || Object.keys(types).length === 0) {
+        throw new Error("Domain, types and message must be JSON objects");
+    }
+    return { domain, types: types as Record<string, ethers.TypedDataField[]>, message };
+}
+
+/** Multicall3, deployed at the same address on most EVM chains */
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+    "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+/** Calls per Multicall3 `aggregate3` eth_call */
+const MULTICALL_BATCH_SIZE = 200;
+
+/** Requests per JSON-RPC batch when Multicall3 is not deployed */
+const JSON_RPC_BATCH_SIZE = 50;
+
+/** Largest number of calls accepted by one batch read */
+const MAX_BATCH_READ_CALLS = 5000;
+
+/** Largest block range scanned for Approval logs in one call; the rest is left to the next page */
+const MAX_APPROVAL_SCAN_BLOCKS = 500000;
+
+/** Allowances at or above this are reported as unlimited */
+const UNLIMITED_ALLOWANCE = ethers.MaxUint256 / 2n;
+
+/**
+ * Get the token addresses registered for a chain in the tokens canister
+ * @param chainId - The chain ID
+ * @returns Checksummed token addresses
+ * @throws Error if the tokens canister is not configured
+ */
+async function getRegisteredTokenAddresses(chainId: number): Promise<string[]> {
+    if (!tokensCanisterId) {
+        throw new Error("Tokens canister not configured; pass tokenAddresses");
+    }
+    const tokensCanister = TokensCanister(Principal.fromText(tokensCanisterId));
+    const tokens = await ic.call(tokensCanister.getTokensByChainId, { args: [BigInt(chainId)] });
+    return tokens.filter(token => ethers.isAddress(token.address)).map(token => ethers.getAddress(token.address));
+}
+
+/**
+ * Get the ERC-20 interface of a chain
+ * @param chainId - The chain ID
+ * @returns The registered erc20 ABI, or the built-in one
+ */
+function getTokenInterface(chainId: number): ethers.Interface {
+    return resolveABIVersion("erc20", chainId) ? getContractInterface("erc20", chainId) : new ethers.Interface(ERC20_ABI);
+}
+
+/**
+ * Check whether Multicall3 is deployed on a chain, caching the answer
+ * @param chainId - The chain ID
+ * @returns True if Multicall3 has code
+ */
+async function isMulticallDeployed(chainId: number): Promise<boolean> {
+    let deployed = multicallDeployed.get(chainId);
+    if (deployed === undefined) {
+        deployed = await getProvider(chainId).getCode(MULTICALL3_ADDRESS) !== "0x";
+        multicallDeployed.set(chainId, deployed);
+    }
+    return deployed;
+}
+
+/**
+ * Run encoded read calls, through Multicall3 when deployed or as JSON-RPC batches otherwise
+ * @param chainId - The chain ID
+ * @param calls - Targets and calldata
+ * @returns The batching method and per-call success and return (or revert) data
+ */
+async function executeBatchCalls(chainId: number, calls: { target: string; callData: string }[]): Promise<{
+    method: string;
+    outcomes: { success: boolean; returnData: string; error?: string }[];
+}> {
+    const outcomes: { success: boolean; returnData: string; error?: string }[] = [];
+
+    if (await isMulticallDeployed(chainId)) {
+        const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, getProvider(chainId));
+        for (let start = 0; start < calls.length; start += MULTICALL_BATCH_SIZE) {
+            const chunk = calls.slice(start, start + MULTICALL_BATCH_SIZE).map(call => ({ ...call, allowFailure: true }));
+            const results: { success: boolean; returnData: string }[] = await multicall.getFunction("aggregate3").staticCall(chunk);
+            outcomes.push(...results.map(result => ({ success: result.success, returnData: result.returnData })));
+        }
+        return { method: "multicall3", outcomes };
+    }
+
+    for (let start = 0; start < calls.length; start += JSON_RPC_BATCH_SIZE) {
+        const payload = calls.slice(start, start + JSON_RPC_BATCH_SIZE).map((call, index) => ({
+            jsonrpc: "2.0" as const,
+            id: index,
+            method: "eth_call",
+            params: [{ to: call.target, data: call.callData }, "latest"]
+        }));
+        // Failed calls carry an error instead of a result
+        const responses: (JsonRpcResult | JsonRpcError)[] = await sendWithFailover(chainId, payload);
+        for (const request of payload) {
+            const response = responses.find(candidate => candidate.id === request.id);
+            if (response && "result" in response && typeof response.result === "string") {
+                outcomes.push({ success: true, returnData: response.result });
+            } else {
+                const error = response && "error" in response ? response.error : undefined;
+                outcomes.push({
+                    success: false,
+                    returnData: typeof error?.data === "string" ? error.data : "0x",
+                    error: error?.message || "No response"
+                });
+            }
+        }
+    }
+    return { method: "jsonrpc-batch", outcomes };
+}
+
+/** JSON-RPC error code for unsupported methods */
+const METHOD_NOT_FOUND_CODE = -32601;
+
+/**
+ * Get the JSON-RPC error code behind an error thrown by a provider
+ * @param error - The thrown error
+ * @returns The code from the node's response, or undefined if there is none
+ */
+function getJsonRpcErrorCode(error: unknown): number | undefined {
+    // ethers keeps the node's error on unknown errors, and in info on unsupported methods
+    const payload: unknown = ethers.isError(error, "UNKNOWN_ERROR") ? error.error
+        : ethers.isError(error, "UNSUPPORTED_OPERATION") ? error.info?.error
+        : undefined;
+    return typeof payload === "object" && payload !== null && "code" in payload && typeof payload.code === "number" ? payload.code : undefined;
+}
+
+/** A call frame of the callTracer, with its logs */
+type CallFrame = {
+    error?: string;
+    logs?: { address: string; topics: string[]; data: string }[];
+    calls?: CallFrame[];
+};
+
+/**
+ * Collect ERC-20 balance changes from the Transfer logs of a traced call
+ * Logs of reverted frames are skipped along with their sub-calls
+ * @param frame - Top call frame from debug_traceCall
+ * @param changes - Accumulated deltas by `${token}_${account}`
+ */
+function collectBalanceChanges(frame: CallFrame, changes: Map<string, { token: string; account: string; delta: bigint }>) {
+    if (frame.error) {
+        return;
+    }
+
+    const transferTopic = ethers.id("Transfer(address,address,uint256)");
+    for (const log of frame.logs || []) {
+        // ERC-721 Transfer has the token ID as a third indexed topic
+        if (log.topics.length !== 3 || log.topics[0] !== transferTopic) {
+            continue;
+        }
+        const token = ethers.getAddress(log.address);
+        const amount = BigInt(log.data);
+        for (const [topic, sign] of [[log.topics[1], -1n], [log.topics[2], 1n]] as const) {
+            const account = ethers.getAddress(ethers.dataSlice(topic, 12));
+            const key = `${token}_${account}`;
+            const change = changes.get(key) || { token, account, delta: 0n };
+            change.delta += sign * amount;
+            changes.set(key, change);
+        }
+    }
+
+    for (const call of frame.calls || []) {
+        collectBalanceChanges(call, changes);
+    }
+}
+
+/**
+ * Dry-run a transaction at the pending block
+ * Reports the decoded revert reason, the gas estimate and, when the node supports
+ * debug_traceCall, the ERC-20 balance deltas from emitted Transfer events.
+ * @param chainId - The chain ID
+ * @param tx - Sender, recipient, value and calldata
+ * @returns The simulation outcome in its Candid shape
+ */
+async function simulateTransaction(chainId: number, tx: { from?: string; to: string; value: bigint; data: string }) {
+    const provider = getProvider(chainId);
+    const call = { ...tx, blockTag: "pending" };
+
+    try {
+        await provider.call(call);
+    } catch (error: unknown) {
+        return {
+            success: false,
+            revertReason: getCallExceptionReason(error) || "Execution reverted",
+            gasEstimate: "0",
+            balanceChanges: [],
+            balanceChangesAvailable: false
+        };
+    }
+
+    const gasEstimate = await provider.estimateGas(call).catch(() => 0n);
+
+    let balanceChangesAvailable = false;
+    const changes = new Map<string, { token: string; account: string; delta: bigint }>();
+    if (traceCallSupported.get(chainId) !== false) {
+        try {
+            const trace: CallFrame = await provider.send("debug_traceCall", [
+                { from: tx.from, to: tx.to, value: ethers.toQuantity(tx.value), data: tx.data },
+                "pending",
+                { tracer: "callTracer", tracerConfig: { withLog: true } }
+            ]);
+            collectBalanceChanges(trace, changes);
+            balanceChangesAvailable = true;
+            traceCallSupported.set(chainId, true);
+        } catch (error: unknown) {
+            if (getJsonRpcErrorCode(error) === METHOD_NOT_FOUND_CODE) {
+                traceCallSupported.set(chainId, false);
+            }
+        }
+    }
+
+    return {
+        success: true,
+        revertReason: "",
+        gasEstimate: gasEstimate.toString(),
+        balanceChanges: Array.from(changes.values())
+            .filter(change => change.delta !== 0n)
+            .map(change => ({ token: change.token, account: change.account, delta: change.delta.toString() })),
+        balanceChangesAvailable
+    };
+}
+
+/** Threshold ECDSA key names of the management canister */
+const ECDSA_KEY_NAMES = ["dfx_test_key", "test_key_1", "key_1"];
+
+/** Cycles attached to sign_with_ecdsa; the unused part is refunded */
+const SIGN_WITH_ECDSA_CYCLES = 30_000_000_000n;
+
+/**
+ * Get the EVM address of a threshold ECDSA key, caching it
+ * @param derivationPath - Derivation path of the key
+ * @returns The checksummed address
+ */
+async function getEcdsaAddress(derivationPath: Uint8Array[]): Promise<string> {
+    const cacheKey = derivationPath.map(segment => ethers.hexlify(segment)).join("/");
+    const cached = signerAddresses.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const response = await fetch("icp://aaaaa-aa/ecdsa_public_key", {
+        body: serialize({
+            args: [{
+                canister_id: [],
+                derivation_path: derivationPath,
+                key_id: { curve: { secp256k1: null }, name: ecdsaKeyName }
+            }]
+        })
+    });
+    const { public_key } = await response.json();
+    const address = ethers.computeAddress(ethers.hexlify(public_key));
+    signerAddresses.set(cacheKey, address);
+    return address;
+}
+
+/**
+ * Sign a 32-byte digest with a threshold ECDSA key
+ * The management canister returns r and s only; the recovery bit is found by
+ * recovering the key's address.
+ * @param derivationPath - Derivation path of the key
+ * @param digest - The hash to sign
+ * @returns The signature
+ */
+async function signWithEcdsa(derivationPath: Uint8Array[], digest: string): Promise<ethers.Signature> {
+    const response = await fetch("icp://aaaaa-aa/sign_with_ecdsa", {
+        body: serialize({
+            args: [{
+                message_hash: ethers.getBytes(digest),
+                derivation_path: derivationPath,
+                key_id: { curve: { secp256k1: null }, name: ecdsaKeyName }
+            }],
+            cycles: SIGN_WITH_ECDSA_CYCLES
+        })
+    });
+    const { signature } = await response.json();
+    return toEthereumSignature(digest, Uint8Array.from(signature), await getEcdsaAddress(derivationPath));
+}
+
+/**
+ * Get the EVM address of a user's threshold ECDSA key
+ * @param userId - The user identifier
+ * @returns The checksummed address
+ */
+async function getSignerAddress(userId: string): Promise<string> {
+    return getEcdsaAddress(getDerivationPath(userId));
+}
+
+/**
+ * Sign a 32-byte digest with a user's threshold ECDSA key
+ * @param userId - The user identifier
+ * @param digest - The hash to sign
+ * @returns The signature
+ */
+async function signDigest(userId: string, digest: string): Promise<ethers.Signature> {
+    return signWithEcdsa(getDerivationPath(userId), digest);
+}
+
+/** Chain whose ENS registry resolves names when no other registry is configured */
+const ENS_CHAIN_ID = 1;
+
+/**
+ * Resolve a name to an address
+ * Uses the chain's configured registry, or the ENS registry on mainnet otherwise.
+ * Through ENS, other chains read the ENSIP-11 address record of the chain.
+ * @param name - The name, e.g. alice.eth
+ * @param chainId - Chain the address is used on; mainnet when omitted
+ * @returns The address, or null if the name has no address for the chain
+ */
+async function resolveNameToAddress(name: string, chainId?: number): Promise<string | null> {
+    const normalized = ethers.ensNormalize(name);
+    if (chainId !== undefined && nameRegistries[chainId]) {
+        // Registries on the chain itself keep the chain's address in the ETH record
+        const resolver = await getRegistryResolver(getProvider(chainId), nameRegistries[chainId], normalized);
+        return resolveAddressRecord(resolver, ETH_COIN_TYPE);
+    }
+
+    const coinType = getCoinType(chainId ?? ENS_CHAIN_ID);
+    return resolveAddressRecord(await getProvider(ENS_CHAIN_ID).getResolver(normalized), coinType);
+}
+
+/**
+ * Find the primary name of an address, verified by forward resolution and cached
+ * @param address - The address
+ * @param chainId - Chain whose registry to use, if one is configured
+ * @returns The name, or an empty string if the address has none
+ */
+async function lookupAddressName(address: string, chainId?: number): Promise<string> {
+    const useRegistry = chainId !== undefined && !!nameRegistries[chainId];
+    const cacheKey = `${chainId ?? ENS_CHAIN_ID}_${address.toLowerCase()}`;
+    const cached = nameCache.get(cacheKey);
+    if (cached && (Date.now() - cached.timestamp) < NAME_CACHE_TTL) {
+        return cached.name;
+    }
+
+    let name = "";
+    if (!useRegistry) {
+        name = await getProvider(ENS_CHAIN_ID).lookupAddress(address) || "";
+        // lookupAddress verifies the ETH record; other chains need their own record to match
+        if (name && chainId !== undefined && chainId !== ENS_CHAIN_ID
+            && (await resolveNameToAddress(name, chainId))?.toLowerCase() !== address.toLowerCase()) {
+            name = "";
+        }
+    } else {
+        const resolver = await getRegistryResolver(getProvider(chainId), nameRegistries[chainId!], getReverseName(address));
+        const reverseName = await resolveNameRecord(resolver);
+        // A reverse record only counts if the name resolves back to the address
+        if (reverseName && (await resolveNameToAddress(reverseName, chainId))?.toLowerCase() === address.toLowerCase()) {
+            name = reverseName;
+        }
+    }
+
+    nameCache.set(cacheKey, { name, timestamp: Date.now() });
+    return name;
+}
+
+/** Scroll L1GasPriceOracle predeploy */
+const SCROLL_L1_GAS_ORACLE = "0x5300000000000000000000000000000000000002";
+
+/** Arbitrum NodeInterface precompile */
+const ARBITRUM_NODE_INTERFACE = "0x00000000000000000000000000000000000000C8";
+
+/** How each rollup charges for posting transaction data to L1 */
+const L1_FEE_MODELS: { [chainId: number]: "scroll" | "arbitrum" } = {
+    534352: "scroll",
+    534351: "scroll",
+    42161: "arbitrum",
+    42170: "arbitrum",
+    421614: "arbitrum"
+};
+
+/**
+ * Estimate the L1 data fee of a transaction on a rollup
+ * On Scroll the fee is charged on top of L2 gas; on Arbitrum it is already part of
+ * eth_estimateGas, so it is reported but must not be added again.
+ * @param provider - Provider of the rollup
+ * @param chainId - The rollup chain ID
+ * @param tx - The transaction to estimate, signed or with a placeholder signature of the same size
+ * @returns The L1 fee in wei and whether it is already included in the gas limit
+ */
+async function estimateL1DataFee(provider: JsonRpcProvider, chainId: number, tx: ethers.Transaction): Promise<{
+    fee: bigint;
+    includedInGasLimit: boolean;
+}> {
+    const model = L1_FEE_MODELS[chainId];
+    if (model === "scroll") {
+        const oracle = new ethers.Contract(SCROLL_L1_GAS_ORACLE, ["function getL1Fee(bytes) view returns (uint256)"], provider);
+        const fee: bigint = await oracle.getFunction("getL1Fee").staticCall(tx.serialized);
+        return { fee, includedInGasLimit: false };
+    }
+    if (model === "arbitrum") {
+        const nodeInterface = new ethers.Contract(ARBITRUM_NODE_INTERFACE, [
+            "function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)"
+        ], provider);
+        const [gasEstimateForL1, baseFee] = await nodeInterface.getFunction("gasEstimateL1Component").staticCall(tx.to, false, tx.data);
+        return { fee: BigInt(gasEstimateForL1) * BigInt(baseFee), includedInGasLimit: true };
+    }
+    return { fee: 0n, includedInGasLimit: false };
+}
+
+/** Chainlink AggregatorV3 functions read for fee quotes */
+const PRICE_FEED_ABI = [
+    "function decimals() view returns (uint8)",
+    "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
+
+/** Oldest accepted price feed answer */
+const MAX_PRICE_FEED_AGE = 24 * 60 * 60; // 1 day, in seconds
+
+/**
+ * Read the USD price of an asset from its registered price feed
+ * @param provider - Provider of the chain
+ * @param chainId - The chain ID
+ * @param asset - Lowercase token address, or "native" for the native coin
+ * @returns The answer and its decimals, or null if no feed is registered
+ * @throws Error if the answer is not positive or is stale
+ */
+async function readPriceFeed(provider: JsonRpcProvider, chainId: number, asset: string): Promise<{ answer: bigint; decimals: bigint } | null> {
+    const feedAddress = priceFeeds[chainId]?.[asset];
+    if (!feedAddress) {
+        return null;
+    }
+
+    const feed = new ethers.Contract(feedAddress, PRICE_FEED_ABI, provider);
+    const [decimals, round] = await Promise.all([
+        feed.getFunction("decimals").staticCall(),
+        feed.getFunction("latestRoundData").staticCall()
+    ]);
+    const answer = BigInt(round.answer);
+    if (answer <= 0n) {
+        throw new Error(`Price feed ${feedAddress} returned a non-positive answer`);
+    }
+    if (BigInt(Math.floor(Date.now() / 1000)) - BigInt(round.updatedAt) > BigInt(MAX_PRICE_FEED_AGE)) {
+        throw new Error(`Price feed ${feedAddress} is stale`);
+    }
+    return { answer, decimals: BigInt(decimals) };
+}
+
+/**
+ * Convert a fee in wei to token units with the registered native and token price feeds
+ * @param provider - Provider of the chain
+ * @param chainId - The chain ID
+ * @param tokenAddress - The ERC-20 token
+ * @param tokenDecimals - Token decimals
+ * @param feeWei - The fee in wei
+ * @returns The fee in the token's smallest units, or null without both price feeds
+ */
+async function quoteFeeInToken(provider: JsonRpcProvider, chainId: number, tokenAddress: string, tokenDecimals: bigint, feeWei: bigint): Promise<bigint | null> {
+    const [nativePrice, tokenPrice] = await Promise.all([
+        readPriceFeed(provider, chainId, "native"),
+        readPriceFeed(provider, chainId, tokenAddress.toLowerCase())
+    ]);
+    if (!nativePrice || !tokenPrice) {
+        return null;
+    }
+
+    // fee * (native USD / token USD), moved from 18 decimals to the token's
+    return feeWei * nativePrice.answer * 10n ** (tokenPrice.decimals + tokenDecimals)
+        / (tokenPrice.answer * 10n ** (nativePrice.decimals + 18n));
+}
+
+/** Largest block range requested in a single eth_getLogs call */
+const MAX_LOG_BLOCK_RANGE = 2000;
+
+/** Largest block range scanned by one indexing pass */
+const MAX_INDEX_BLOCKS = 20000;
+
+/** Event count after which an indexing pass stops at the current chunk */
+const MAX_INDEXED_EVENTS = 1000;
+
+/** Block hashes seen by indexing passes, kept per chain to find where a reorg forked */
+const MAX_INDEXED_BLOCK_HASHES = 256;
+
+/** Blocks compared in one JSON-RPC batch while looking for the fork point of a reorg */
+const REORG_SCAN_BATCH = 16;
+
+/** Block hashes seen by indexing passes by chain ID, ascending by block number */
+let indexedBlockHashes = new Map<number, Array<{ number: number; hash: string }>>();
+
+/**
+ * Remember the hashes of blocks an indexing pass saw
+ * @param chainId - The indexed chain
+ * @param blocks - Block numbers and hashes
+ */
+function rememberIndexedBlocks(chainId: number, blocks: Array<{ number: number; hash: string }>) {
+    const known = new Map((indexedBlockHashes.get(chainId) || []).map(block => [block.number, block.hash]));
+    for (const block of blocks) {
+        known.set(block.number, block.hash);
+    }
+    const sorted = Array.from(known.entries())
+        .sort(([a], [b]) => a - b)
+        .slice(-MAX_INDEXED_BLOCK_HASHES)
+        .map(([number, hash]) => ({ number, hash }));
+    indexedBlockHashes.set(chainId, sorted);
+}
+
+/**
+ * Find the newest remembered block below a reorged cursor that is still canonical
+ * Remembered blocks above it are forgotten, since they belong to the abandoned fork.
+ * @param provider - Provider of the chain
+ * @param chainId - The indexed chain
+ * @param cursorBlock - Block number of the reorged cursor
+ * @returns The fork point, or null if no remembered block is still canonical
+ */
+async function findIndexedForkPoint(provider: JsonRpcProvider, chainId: number, cursorBlock: number): Promise<{ number: number; hash: string } | null> {
+    const candidates = (indexedBlockHashes.get(chainId) || []).filter(block => block.number < cursorBlock).reverse();
+    for (let start = 0; start < candidates.length; start += REORG_SCAN_BATCH) {
+        const batch = candidates.slice(start, start + REORG_SCAN_BATCH);
+        // Requests made in the same tick go out as one JSON-RPC batch
+        const blocks = await Promise.all(batch.map(candidate => provider.getBlock(candidate.number)));
+        const index = batch.findIndex((candidate, position) => blocks[position]?.hash?.toLowerCase() === candidate.hash.toLowerCase());
+        if (index !== -1) {
+            const forkPoint = batch[index];
+            indexedBlockHashes.set(chainId, (indexedBlockHashes.get(chainId) || []).filter(block => block.number <= forkPoint.number));
+            return forkPoint;
+        }
+    }
+    return null;
+}
+
+/**
+ * Fetch logs over a block range in chunks the provider accepts
+ * The chunk size is halved whenever the provider rejects a range
+ * @param provider - Provider of the chain
+ * @param addresses - Contract addresses to fetch logs for
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @param maxLogs - Stop after the chunk that reaches this many logs
+ * @param topics - Optional topic filter
+ * @returns The logs and the last block actually scanned
+ */
+async function getLogsChunked(provider: JsonRpcProvider, addresses: string[], fromBlock: number, toBlock: number, maxLogs: number, topics?: Array<string | null>): Promise<{
+    logs: ethers.Log[];
+    lastBlock: number;
+}> {
+    const logs: ethers.Log[] = [];
+    let chunkSize = MAX_LOG_BLOCK_RANGE;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+        const end = Math.min(start + chunkSize - 1, toBlock);
+        try {
+            logs.push(...await provider.getLogs({ address: addresses, topics, fromBlock: start, toBlock: end }));
+        } catch (error) {
+            if (chunkSize === 1) {
+                throw error;
+            }
+            chunkSize = Math.ceil(chunkSize / 2);
+            continue;
+        }
+
+        if (logs.length >= maxLogs) {
+            return { logs, lastBlock: end };
+        }
+        start = end + 1;
+    }
+    return { logs, lastBlock: toBlock };
+}
+
+/**
+ * Decode a log with the ABI of the contract that emitted it
+ * @param log - The raw log
+ * @param contractType - Contract type of the emitter
+ * @param iface - Interface of the emitter
+ * @returns The event in its Candid shape
+ */
+function decodeIndexedLog(log: ethers.Log, contractType: string, iface: ethers.Interface) {
+    const base = {
+        contractType,
+        address: log.address,
+        blockNumber: BigInt(log.blockNumber),
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: BigInt(log.index)
+    };
+
+    const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+        return { ...base, event: "", signature: log.topics[0] || "", args: "{}" };
+    }
+
+    const args = Object.fromEntries(parsed.fragment.inputs.map((input, index) => [input.name || String(index), toJsonValue(parsed.args[index], input)]));
+    return { ...base, event: parsed.name, signature: parsed.signature, args: JSON.stringify(args) };
+}
+
+/**
+ * Generate unique tracking ID
+ * The time prefix keeps IDs unique across upgrades, which reset the counter.
+ * @returns A unique tracking ID
+ */
+function generateTrackingId(): string {
+    trackingIdCounter += 1;
+    return `${Date.now()}_${trackingIdCounter}`;
+}
+
+/**
+ * Start tracking a broadcast transaction
+ * @param chainId - The chain the transaction was sent to
+ * @param txHash - The transaction hash
+ * @returns The tracking ID
+ */
+function trackTransaction(chainId: number, txHash: string): string {
+    const now = Date.now();
+    const trackingId = generateTrackingId();
+    trackedTransactions.set(trackingId, {
+        trackingId,
+        chainId,
+        txHash,
+        status: 'SUBMITTED',
+        confirmations: 0,
+        blockNumber: 0,
+        revertReason: "",
+        submittedAt: now,
+        updatedAt: now
+    });
+    return trackingId;
+}
+
+/**
+ * Move a tracked transaction to its current on-chain state
+ * A replacement broadcast through the canister is followed instead of
+ * marking the original as replaced.
+ * @param tracked - The tracked transaction
+ */
+async function advanceTrackedTransaction(tracked: TrackedTx) {
+    const state = await getTransactionState(tracked.chainId, tracked.txHash);
+    const now = Date.now();
+
+    if (!state || (state.status === 'DROPPED' && now - tracked.submittedAt < TRACKING_DROP_GRACE)) {
+        return;
+    }
+
+    if (state.status === 'REPLACED' && state.replacedBy && findReplacementFamily(tracked.chainId, tracked.txHash)
+        ?.transactions.some(member => member.hash.toLowerCase() === state.replacedBy.toLowerCase())) {
+        tracked.txHash = state.replacedBy;
+        tracked.status = 'PENDING';
+        tracked.updatedAt = now;
+        return;
+    }
+
+    if (state.status !== tracked.status || Number(state.confirmations) !== tracked.confirmations) {
+        tracked.status = state.status;
+        tracked.confirmations = Number(state.confirmations);
+        tracked.blockNumber = Number(state.blockNumber);
+        tracked.revertReason = state.revertReason;
+        tracked.updatedAt = now;
+    }
+}
+
+/**
+ * Advance every open tracked transaction and forget old final ones
+ * @returns Number of transactions still open
+ */
+async function reconcileTrackedTransactions(): Promise<number> {
+    const now = Date.now();
+    let open = 0;
+    for (const [trackingId, tracked] of trackedTransactions.entries()) {
+        if (FINAL_TRACKING_STATES.includes(tracked.status)) {
+            if (now - tracked.updatedAt > OBSERVED_TX_TTL) {
+                trackedTransactions.delete(trackingId);
+            }
+            continue;
+        }
+
+        try {
+            await advanceTrackedTransaction(tracked);
+        } catch {
+            // RPC errors are retried on the next tick
+        }
+        if (!FINAL_TRACKING_STATES.includes(tracked.status)) {
+            open++;
+        }
+    }
+    return open;
+}
+
+/**
+ * Start the reconciler timer if it is not running
+ */
+function startTrackingTimer() {
+    if (trackingTimer === null) {
+        trackingTimer = ic.setTimerInterval(TRACKING_INTERVAL_SECONDS, async () => {
+            await reconcileTrackedTransactions();
+        });
+    }
+}
+
+/**
+ * Settle a sponsored UserOperation against its bundler receipt
+ * The worst-case charge is replaced by the actual gas cost once the receipt exists;
+ * without a receipt after SPONSORED_OPERATION_TTL the worst-case charge stands.
+ * @param userOpHash - The UserOperation hash
+ * @param receipt - The bundler receipt, or null if the operation is not included yet
+ */
+function settleSponsoredOperation(userOpHash: string, receipt: { actualGasCost: string } | null) {
+    // Checked after the receipt lookup, so concurrent lookups settle only once
+    const sponsored = sponsoredOperations.get(userOpHash);
+    if (!sponsored) {
+        return;
+    }
+    if (receipt) {
+        recordSponsorshipSpend(sponsored.chainId, sponsored.usageKey, BigInt(receipt.actualGasCost) - sponsored.charged);
+        sponsoredOperations.delete(userOpHash);
+    } else if (Date.now() - sponsored.submittedAt > SPONSORED_OPERATION_TTL) {
+        sponsoredOperations.delete(userOpHash);
+    }
+}
+
+/**
+ * Settle every sponsored UserOperation whose receipt has arrived, and stop the
+ * settlement timer once none are left
+ */
+async function settleSponsoredOperations() {
+    for (const [userOpHash, sponsored] of sponsoredOperations.entries()) {
+        try {
+            const receipt = await getBundler(sponsored.chainId).send("eth_getUserOperationReceipt", [userOpHash]);
+            settleSponsoredOperation(userOpHash, receipt);
+        } catch {
+            // Bundler errors are retried on the next pass
+        }
+    }
+    if (sponsoredOperations.size === 0 && sponsorshipTimer !== null) {
+        ic.clearTimer(sponsorshipTimer);
+        sponsorshipTimer = null;
+    }
+}
+
+/**
+ * Start the sponsorship settlement timer if it is not running
+ */
+function startSponsorshipTimer() {
+    if (sponsorshipTimer === null) {
+        sponsorshipTimer = ic.setTimerInterval(SPONSORSHIP_SETTLEMENT_INTERVAL_SECONDS, async () => {
+            await settleSponsoredOperations();
+        });
+    }
+}
+
+/**
+ * Convert a tracked transaction to its Candid shape
+ * @param tracked - The tracked transaction
+ * @returns The Candid record
+ */
+function trackedTransactionToCandid(tracked: TrackedTx) {
+    return {
+        trackingId: tracked.trackingId,
+        chainId: BigInt(tracked.chainId),
+        txHash: tracked.txHash,
+        status: tracked.status,
+        confirmations: BigInt(tracked.confirmations),
+        blockNumber: BigInt(tracked.blockNumber),
+        revertReason: tracked.revertReason,
+        submittedAt: BigInt(tracked.submittedAt),
+        updatedAt: BigInt(tracked.updatedAt)
+    };
+}
+
+/**
+ * Remove UserOperations whose signature window has expired
+ */
+function pruneUserOperations() {
+    const now = Date.now();
+    for (const [userOpHash, pending] of pendingUserOperations.entries()) {
+        if (now - pending.createdAt > USER_OPERATION_TTL) {
+            pendingUserOperations.delete(userOpHash);
+        }
+    }
+}
+
+/**
+ * ChatterPay EVM Service Canister
+ * 
+ * Provides unified contract management and blockchain interaction capabilities
+ * for the ChatterPay ecosystem across multiple EVM-compatible networks.
+ */
+export default Canister({
+    /**
+     * Start the transaction reconciler on install
+     */
+    init: init([], () => {
+        startTrackingTimer();
+    }),
+
+    /**
+     * Restart the transaction reconciler after an upgrade (timers are not persisted)
+     */
+    postUpgrade: postUpgrade([], () => {
+        startTrackingTimer();
+    }),
+
+    /**
+     * Initialize the canister owner
+     * Can only be called once when OWNER is null
+     * @returns The owner principal ID or error message
+     */
+    initializeOwner: update([], Result(text), () => {
+        if (OWNER !== null) {
+            return { Err: "Owner already initialized" };
+        }
+        OWNER = ic.caller().toString();
+        return { Ok: OWNER };
+    }),
+
+    /**
+     * Transfer ownership to a new principal
+     * @param newOwner - The new owner's principal ID
+     * @returns Success boolean or error message
+     */
+    setOwner: update([text], Result(bool), (newOwner: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized. Call initializeOwner first." };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only current owner can transfer ownership" };
+        }
+        OWNER = newOwner;
+        return { Ok: true };
+    }),
+
+    /**
+     * Get the current owner principal ID
+     * @returns The owner principal ID or empty string if not set
+     */
+    getOwner: query([], text, () => OWNER || ""),
+
+    /**
+     * Update contract addresses for a specific network
+     * Only the owner can perform this operation
+     * @param networkId - The network ID (e.g., 534352 for Scroll)
+     * @param contracts - Object containing contract addresses
+     * @returns Success boolean or error message
+     */
+    updateNetworkContracts: update([nat64, NetworkContracts], Result(bool), (networkId: bigint, contracts: any) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update contracts" };
+        }
+        if (!chainRegistry.has(Number(networkId))) {
+            return { Err: "Chain not registered. Call registerChain first." };
+        }
+        
+        chatterPayContracts[Number(networkId)] = {
+            factory: contracts.factory || undefined,
+            implementation: contracts.implementation || undefined,
+            nft: contracts.nft || undefined,
+            paymaster: contracts.paymaster || undefined,
+            entryPoint: contracts.entryPoint || undefined
+        };
+        return { Ok: true };
+    }),
+
+    /**
+     * Update contract ABIs for the core contract types at once
+     * Each non-empty ABI is validated and registered as a new "legacy-<timestamp>" version;
+     * prefer registerABI to version contract types individually
+     * Only the owner can perform this operation
+     * @param abis - Object containing ABI JSON strings for each contract type
+     * @returns Success boolean or error message
+     */
+    updateABIs: update([Record({
+        factory: text,
+        implementation: text,
+        nft: text,
+        paymaster: text,
+        entryPoint: text
+    })], Result(bool), (abis: any) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update ABIs" };
+        }
+        
+        const contractTypes = ["factory", "implementation", "nft", "paymaster", "entryPoint"];
+        try {
+            // Validate everything before registering anything
+            for (const contractType of contractTypes) {
+                if (abis[contractType]) {
+                    parseABI(abis[contractType]);
+                }
+            }
+
+            const version = `legacy-${Date.now()}`;
+            for (const contractType of contractTypes) {
+                if (abis[contractType]) {
+                    registerContractABI(contractType, version, abis[contractType]);
+                }
+            }
+            return { Ok: true };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Invalid ABI: ${message}` };
+        }
+    }),
+
+    /**
+     * Register an ABI version for a single contract type
+     * The new version becomes the latest, used on networks without a pinned version
+     * Only the owner can perform this operation
+     * @param contractType - Contract type, e.g. "implementation", "erc20" or "swapRouter"
+     * @param version - Version label, immutable once registered
+     * @param abi - ABI as a JSON array of JSON or human-readable fragments
+     * @returns Success boolean or error message
+     */
+    registerABI: update([text, text, text], Result(bool), (contractType: string, version: string, abi: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update ABIs" };
+        }
+
+        try {
+            registerContractABI(contractType, version, abi);
+            return { Ok: true };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Invalid ABI: ${message}` };
+        }
+    }),
+
+    /**
+     * Pin the ABI version of a contract type on one network
+     * Only the owner can perform this operation
+     * @param networkId - The network ID
+     * @param contractType - Contract type
+     * @param version - Registered version label, empty string to follow the latest again
+     * @returns Success boolean or error message
+     */
+    pinABIVersion: update([nat64, text, text], Result(bool), (networkId: bigint, contractType: string, version: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update ABIs" };
+        }
+
+        const id = Number(networkId);
+        if (!version) {
+            delete abiPins[id]?.[contractType];
+            return { Ok: true };
+        }
+        if (!contractABIs[contractType]?.versions[version]) {
+            return { Err: `${contractType} ABI version ${version} is not registered` };
+        }
+
+        abiPins[id] = { ...abiPins[id], [contractType]: version };
+        return { Ok: true };
+    }),
+
+    /**
+     * Set the account proxy the factory of a network deploys, used to compute wallet addresses
+     * Only the owner can perform this operation
+     * @param networkId - The network ID
+     * @param creationCode - Proxy creation bytecode, without constructor arguments
+     * @param initializer - Implementation initializer taking the owner first, e.g. "function initialize(address owner)"
+     * @param initializerArgs - JSON array of the initializer arguments after the owner
+     * @returns Success boolean or error message
+     */
+    setAccountProxyCode: update([nat64, text, text, text], Result(bool), (networkId: bigint, creationCode: string, initializer: string, initializerArgs: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update contracts" };
+        }
+        if (!chainRegistry.has(Number(networkId))) {
+            return { Err: "Chain not registered. Call registerChain first." };
+        }
+
+        try {
+            if (!ethers.isHexString(creationCode) || creationCode === "0x") {
+                return { Err: "Creation code must be non-empty hex" };
+            }
+            const args: unknown = JSON.parse(initializerArgs || "[]");
+            if (!Array.isArray(args)) {
+                return { Err: "Initializer arguments must be a JSON array" };
+            }
+
+            const proxy = { creationCode, initializer, initializerArgs: args };
+            // Fail now rather than at the first prediction
+            computeWalletAddress(ethers.ZeroAddress, proxy, ethers.ZeroAddress, ethers.ZeroAddress, 0n, "salt");
+            accountProxyCode[Number(networkId)] = proxy;
+            return { Ok: true };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Invalid account proxy code: ${message}` };
+        }
+    }),
+
+    /**
+     * Register the Chainlink USD price feed of a token or the native coin, used for fee quotes
+     * Only the owner can perform this operation
+     * @param networkId - The network ID
+     * @param tokenAddress - The ERC-20 token, None for the native coin
+     * @param feedAddress - AggregatorV3 feed address, empty string to remove the feed
+     * @returns Success boolean or error message
+     */
+    setPriceFeed: update([nat64, Opt(text), text], Result(bool), (networkId: bigint, tokenAddress: any, feedAddress: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update price feeds" };
+        }
+        if (!chainRegistry.has(Number(networkId))) {
+            return { Err: "Chain not registered. Call registerChain first." };
+        }
+
+        const token = fromOpt<string>(tokenAddress);
+        if (token !== undefined && !ethers.isAddress(token)) {
+            return { Err: "Invalid token address" };
+        }
+        if (feedAddress && !ethers.isAddress(feedAddress)) {
+            return { Err: "Invalid price feed address" };
+        }
+
+        const id = Number(networkId);
+        const asset = token === undefined ? "native" : token.toLowerCase();
+        if (!feedAddress) {
+            delete priceFeeds[id]?.[asset];
+            return { Ok: true };
+        }
+        priceFeeds[id] = { ...priceFeeds[id], [asset]: ethers.getAddress(feedAddress) };
+        return { Ok: true };
+    }),
+
+    /**
+     * List the ABI in use for every contract type, with the functions, events and errors it exposes
+     * @param networkId - Network whose pinned versions apply, None for the latest versions
+     * @returns ABI descriptions by contract type
+     */
+    listABIs: query([Opt(nat64)], Vec(ABIDescription), (networkId: any) => {
+        const chainId = fromOpt<bigint>(networkId);
+        return Object.keys(contractABIs).map(contractType =>
+            describeABI(contractType, resolveABIVersion(contractType, chainId === undefined ? undefined : Number(chainId))!)
+        );
+    }),
+
+    /**
+     * List every registered version of a contract type's ABI
+     * @param contractType - Contract type
+     * @returns ABI descriptions, oldest first, or error if the type is unknown
+     */
+    getABIVersions: query([text], Result(Vec(ABIDescription)), (contractType: string) => {
+        const entry = contractABIs[contractType];
+        if (!entry) {
+            return { Err: `No ABI registered for ${contractType}` };
+        }
+        return {
+            Ok: Object.keys(entry.versions)
+                .map(version => describeABI(contractType, version))
+                .sort((a, b) => Number(a.registeredAt - b.registeredAt))
+        };
+    }),
+
+    /**
+     * Set the ERC-4337 bundler RPC URL for a network
+     * Only the owner can perform this operation
+     * @param networkId - The network ID the bundler serves
+     * @param url - Bundler JSON-RPC endpoint, empty string to remove it
+     * @returns Success boolean or error message
+     */
+    updateBundlerUrl: update([nat64, text], Result(bool), (networkId: bigint, url: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update bundlers" };
+        }
+
+        if (url) {
+            bundlerUrls[Number(networkId)] = url;
+        } else {
+            delete bundlerUrls[Number(networkId)];
+        }
+        return { Ok: true };
+    }),
+
+    /**
+     * Update the global paymaster sponsorship limits
+     * Only the owner can perform this operation
+     * @param config - Enabled flag, per-sender daily budget and global ceiling in wei
+     * @returns Success boolean or error message
+     */
+    updateSponsorshipPolicy: update([SponsorshipPolicyConfig], Result(bool), (config: any) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update sponsorship policy" };
+        }
+
+        try {
+            sponsorshipPolicy.enabled = config.enabled;
+            sponsorshipPolicy.userDailyBudget = BigInt(config.userDailyBudget);
+            sponsorshipPolicy.globalCeiling = BigInt(config.globalCeiling);
+            return { Ok: true };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Invalid sponsorship policy: ${message}` };
+        }
+    }),
+
+    /**
+     * Set the paymaster sponsorship rules for a network
+     * Spend already recorded for the network is kept
+     * Only the owner can perform this operation
+     * @param rules - Network cap, allowed targets and allowed method selectors
+     * @returns Success boolean or error message
+     */
+    updateNetworkSponsorshipRules: update([NetworkSponsorshipRules], Result(bool), (rules: any) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update sponsorship policy" };
+        }
+
+        const targets = rules.allowedTargets as string[];
+        const selectors = rules.allowedSelectors as string[];
+        if (targets.some(target => !ethers.isAddress(target))) {
+            return { Err: "Invalid target address" };
+        }
+        if (selectors.some(selector => selector !== "0x" && !ethers.isHexString(selector, 4))) {
+            return { Err: "Selectors must be 4-byte hex strings or 0x" };
+        }
+
+        try {
+            const networkId = Number(rules.networkId);
+            sponsorshipPolicy.networks[networkId] = {
+                cap: BigInt(rules.cap),
+                spent: sponsorshipPolicy.networks[networkId]?.spent || 0n,
+                allowedTargets: targets.map(target => target.toLowerCase()),
+                allowedSelectors: selectors.map(selector => selector.toLowerCase())
+            };
+            return { Ok: true };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Invalid sponsorship rules: ${message}` };
+        }
+    }),
+
+    /**
+     * Get the paymaster sponsorship policy and current spend
+     * @returns Global limits and per-network rules
+     */
+    getSponsorshipPolicy: query([], SponsorshipPolicyState, () => {
+        return {
+            enabled: sponsorshipPolicy.enabled,
+            userDailyBudget: sponsorshipPolicy.userDailyBudget.toString(),
+            globalCeiling: sponsorshipPolicy.globalCeiling.toString(),
+            globalSpent: sponsorshipPolicy.globalSpent.toString(),
+            networks: Object.entries(sponsorshipPolicy.networks).map(([networkId, rules]) => ({
+                networkId: BigInt(networkId),
+                cap: rules.cap.toString(),
+                spent: rules.spent.toString(),
+                allowedTargets: rules.allowedTargets,
+                allowedSelectors: rules.allowedSelectors
+            }))
+        };
+    }),
+
+    /**
+     * Check whether the paymaster would sponsor an operation
+     * @param request - Account owner, call target, calldata and worst-case gas cost
+     * @returns Approved with the paymaster, or Rejected with a code and reason
+     */
+    evaluateSponsorship: query([SponsorshipRequest], Result(SponsorshipDecision), (request: any) => {
+        try {
+            if (!ethers.isAddress(request.owner as string) || !ethers.isAddress(request.target as string)) {
+                return { Err: "Invalid owner or target address" };
+            }
+            return {
+                Ok: evaluateSponsorshipPolicy(Number(request.networkId), request.owner, request.target,
+                    request.data || "0x", BigInt(request.maxGasCost))
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Sponsorship evaluation failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Get the address that signs paymaster approvals
+     * Set it as the verifying signer of the paymaster contract on every network.
+     * @returns The signer address or error message
+     */
+    getPaymasterSigner: update([], Result(text), async () => {
+        try {
+            return { Ok: await getEcdsaAddress(getPaymasterDerivationPath()) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Paymaster signer lookup failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Add an RPC endpoint to a chain's failover pool
+     * Only the owner can perform this operation
+     * @param chainId - The chain the endpoint serves
+     * @param url - The endpoint URL
+     * @returns Success boolean or error message
+     */
+    addRpcEndpoint: update([nat64, text], Result(bool), (chainId: bigint, url: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can manage RPC endpoints" };
+        }
+
+        const endpoints = rpcEndpoints.get(Number(chainId));
+        if (!endpoints) {
+            return { Err: "Unsupported chain ID" };
+        }
+        if (!/^https?:\/\//.test(url)) {
+            return { Err: "Invalid RPC URL" };
+        }
+        if (endpoints.some(endpoint => endpoint.url === url)) {
+            return { Err: "RPC endpoint already configured" };
+        }
+
+        endpoints.push(createRpcEndpoint(Number(chainId), url));
+        return { Ok: true };
+    }),
+
+    /**
+     * Remove an RPC endpoint from a chain's failover pool
+     * Only the owner can perform this operation
+     * @param chainId - The chain the endpoint serves
+     * @param url - The endpoint URL
+     * @returns Success boolean or error message
+     */
+    removeRpcEndpoint: update([nat64, text], Result(bool), (chainId: bigint, url: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can manage RPC endpoints" };
+        }
+
+        const endpoints = rpcEndpoints.get(Number(chainId));
+        const index = endpoints ? endpoints.findIndex(endpoint => endpoint.url === url) : -1;
+        if (!endpoints || index === -1) {
+            return { Err: "RPC endpoint not found" };
+        }
+        if (endpoints.length === 1) {
+            return { Err: "Cannot remove the last RPC endpoint of a chain" };
+        }
+        const quorum = rpcQuorums.get(Number(chainId)) || 1;
+        if (endpoints.length - 1 < quorum) {
+            return { Err: `Cannot leave fewer endpoints than the RPC quorum of ${quorum}; lower it with setRpcQuorum first` };
+        }
+
+        endpoints.splice(index, 1);
+        return { Ok: true };
+    }),
+
+    /**
+     * Set how many endpoints must agree on critical reads such as receipts
+     * Only the owner can perform this operation
+     * @param chainId - The chain ID
+     * @param quorum - Number of agreeing endpoints, 1 disables quorum reads
+     * @returns Success boolean or error message
+     */
+    setRpcQuorum: update([nat64, nat64], Result(bool), (chainId: bigint, quorum: bigint) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can manage RPC endpoints" };
+        }
+
+        const endpoints = rpcEndpoints.get(Number(chainId));
+        if (!endpoints) {
+            return { Err: "Unsupported chain ID" };
+        }
+        if (quorum < 1n || quorum > BigInt(endpoints.length)) {
+            return { Err: `Quorum must be between 1 and ${endpoints.length}` };
+        }
+
+        rpcQuorums.set(Number(chainId), Number(quorum));
+        return { Ok: true };
+    }),
+
+    /**
+     * Inspect the health of a chain's RPC endpoints, best first
+     * @param chainId - The chain ID
+     * @returns Endpoint statistics or error if the chain is not supported
+     */
+    getRpcEndpoints: query([nat64], Result(Vec(RpcEndpointHealth)), (chainId: bigint) => {
+        const endpoints = rpcEndpoints.get(Number(chainId));
+        if (!endpoints) {
+            return { Err: "Unsupported chain ID" };
+        }
+
+        const now = Date.now();
+        return {
+            Ok: [...endpoints]
+                .sort((a, b) => getEndpointScore(a) - getEndpointScore(b))
+                .map(endpoint => ({
+                    url: endpoint.url,
+                    latencyMs: endpoint.latencyMs,
+                    errorRate: endpoint.errorRate,
+                    successes: BigInt(endpoint.successes),
+                    failures: BigInt(endpoint.failures),
+                    circuitOpen: endpoint.circuitOpenUntil > now,
+                    score: getEndpointScore(endpoint)
+                }))
+        };
+    }),
+
+    /**
+     * Get contract addresses for a specific network
+     * @param networkId - The network ID to get contracts for
+     * @returns Object containing contract addresses for the network
+     */
+    getNetworkContracts: query([nat64], NetworkContracts, (networkId: bigint) => {
+        const contracts = chatterPayContracts[Number(networkId)] || {};
+        return {
+            factory: contracts.factory || "",
+            implementation: contracts.implementation || "",
+            nft: contracts.nft || "",
+            paymaster: contracts.paymaster || "",
+            entryPoint: contracts.entryPoint || ""
+        };
+    }),
+
+    /**
+     * Get all networks with ChatterPay contracts configured
+     * @returns Network chain IDs, names and contract addresses
+     */
+    getSupportedNetworks: query([], Vec(SupportedNetwork), () => {
+        return Object.entries(chatterPayContracts).map(([networkId, contracts]) => ({
+            chainId: BigInt(networkId),
+            name: chainRegistry.get(Number(networkId))?.name || "",
+            contracts: {
+                factory: contracts.factory || "",
+                implementation: contracts.implementation || "",
+                nft: contracts.nft || "",
+                paymaster: contracts.paymaster || "",
+                entryPoint: contracts.entryPoint || ""
+            }
+        }));
+    }),
+
+    /**
+     * Predict the ChatterPay smart account address for a user
+     * The address is the CREATE2 counterfactual address the factory will deploy to,
+     * so funds can be received before the account exists on chain
+     * @param networkId - The network ID where the wallet should be created
+     * @param owner - Address of the account owner
+     * @param salt - Account salt as decimal or hex uint256 ("0" for owner-salted factories)
+     * @returns The predicted wallet address or error message
+     */
+    createUserWallet: update([nat64, text, text], Result(text), async (networkId: bigint, owner: string, salt: string) => {
+        try {
+            if (!ethers.isAddress(owner)) {
+                return { Err: "Invalid owner address" };
+            }
+
+            const prediction = await predictWalletAddress(Number(networkId), ethers.getAddress(owner), parseSalt(salt));
+            return { Ok: prediction.address };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Wallet creation failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Predict the ChatterPay smart account address for a user, with the contracts
+     * used and whether the account is already deployed
+     * @param networkId - The network ID where the wallet should be created
+     * @param owner - Address of the account owner
+     * @param salt - Account salt as decimal or hex uint256 ("0" for owner-salted factories)
+     * @returns The predicted wallet address and its deployment status, or error message
+     */
+    predictUserWallet: update([nat64, text, text], Result(WalletAddressResult), async (networkId: bigint, owner: string, salt: string) => {
+        try {
+            if (!ethers.isAddress(owner)) {
+                return { Err: "Invalid owner address" };
+            }
+
+            const accountSalt = parseSalt(salt);
+            const prediction = await predictWalletAddress(Number(networkId), ethers.getAddress(owner), accountSalt);
+
+            return {
+                Ok: {
+                    address: prediction.address,
+                    owner: ethers.getAddress(owner),
+                    salt: accountSalt.toString(),
+                    factory: prediction.factory,
+                    implementation: prediction.implementation,
+                    deployed: prediction.deployed
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Wallet prediction failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Build a UserOperation that makes a ChatterPay smart account call `target`
+     * Fetches the nonce from the EntryPoint, wraps the call in `execute`, adds initCode
+     * for undeployed accounts and asks the bundler for gas limits. Sponsored operations
+     * get VerifyingPaymaster data signed by the canister's paymaster key that expires
+     * with the draft. The returned userOpHash must be signed by the account owner and
+     * sent to submitUserOperation.
+     * @param params - Sender, call target, value, calldata and sponsorship flag
+     * @returns The UserOperation draft and its hash, or error message
+     */
+    buildUserOperation: update([BuildUserOperationParams], Result(UserOperationDraft), async (params: any) => {
+        try {
+            const chainId = Number(params.networkId);
+            const contracts = chatterPayContracts[chainId];
+            if (!contracts?.entryPoint) {
+                return { Err: "EntryPoint contract not configured for this network" };
+            }
+            if (!ethers.isAddress(params.sender as string) || !ethers.isAddress(params.target as string)) {
+                return { Err: "Invalid sender or target address" };
+            }
+
+            const provider = getProvider(chainId);
+            const sender = ethers.getAddress(params.sender as string);
+            let initCode = "0x";
+
+            // The owner is checked against the CREATE2 address; sponsorship budgets are per owner
+            const deployed = await provider.getCode(sender) !== "0x";
+            const ownerParam = fromOpt<string>(params.owner);
+            let owner: string | undefined;
+            if (!deployed || params.sponsored) {
+                if (!ownerParam || !ethers.isAddress(ownerParam)) {
+                    return { Err: deployed ? "Owner is required for sponsored operations" : "Smart account not deployed; owner is required to build initCode" };
+                }
+                owner = ethers.getAddress(ownerParam);
+                const salt = parseSalt(fromOpt<string>(params.salt) || "0");
+                const prediction = await predictWalletAddress(chainId, owner, salt);
+                if (prediction.address !== sender) {
+                    return { Err: `Sender does not match the counterfactual address ${prediction.address}` };
+                }
+                if (!deployed) {
+                    initCode = buildInitCode(chainId, owner, salt);
+                }
+            }
+
+            // Sponsored operations carry an approval that expires with the draft
+            const validUntil = Math.floor((Date.now() + USER_OPERATION_TTL) / 1000);
+            const validAfter = 0;
+            let paymasterAndData = "0x";
+            if (params.sponsored) {
+                if (!contracts.paymaster) {
+                    return { Err: "Paymaster contract not configured for this network" };
+                }
+                paymasterAndData = encodePaymasterAndData(contracts.paymaster, validUntil, validAfter);
+            }
+
+            const entryPoint = new ethers.Contract(contracts.entryPoint, getContractInterface("entryPoint", chainId), provider);
+            const callData = getContractInterface("implementation", chainId).encodeFunctionData("execute", [
+                params.target,
+                BigInt(params.value || "0"),
+                params.data || "0x"
+            ]);
+
+            const [nonce, feeData] = await Promise.all([
+                entryPoint.getFunction("getNonce").staticCall(sender, 0n) as Promise<bigint>,
+                provider.getFeeData()
+            ]);
+
+            const userOperation: UserOp = {
+                sender,
+                nonce,
+                initCode,
+                callData,
+                callGasLimit: 0n,
+                verificationGasLimit: 0n,
+                preVerificationGas: 0n,
+                maxFeePerGas: feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n,
+                maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? feeData.gasPrice ?? 0n,
+                paymasterAndData,
+                signature: DUMMY_SIGNATURE
+            };
+
+            const gas = await getBundler(chainId).send("eth_estimateUserOperationGas", [
+                userOperationToRpc(userOperation),
+                contracts.entryPoint
+            ]);
+            userOperation.callGasLimit = BigInt(gas.callGasLimit);
+            userOperation.verificationGasLimit = BigInt(gas.verificationGasLimit);
+            userOperation.preVerificationGas = BigInt(gas.preVerificationGas);
+            userOperation.signature = "0x";
+
+            if (params.sponsored) {
+                const decision = evaluateSponsorshipPolicy(chainId, owner!, params.target, params.data || "0x", getMaxGasCost(userOperation));
+                if ("Rejected" in decision) {
+                    return { Err: `Sponsorship rejected (${decision.Rejected.code}): ${decision.Rejected.reason}` };
+                }
+                const paymasterHash = getPaymasterHash(userOperation, decision.Approved.paymaster, chainId, validUntil, validAfter);
+                const approval = await signWithEcdsa(getPaymasterDerivationPath(), ethers.hashMessage(ethers.getBytes(paymasterHash)));
+                userOperation.paymasterAndData = encodePaymasterAndData(decision.Approved.paymaster, validUntil, validAfter, approval.serialized);
+            }
+
+            const userOpHash = getUserOperationHash(userOperation, contracts.entryPoint, chainId);
+
+            pruneUserOperations();
+            pendingUserOperations.set(userOpHash, {
+                chainId,
+                entryPoint: contracts.entryPoint,
+                userOperation,
+                sponsorship: params.sponsored ? { owner: owner!, target: params.target, data: params.data || "0x" } : undefined,
+                createdAt: Date.now()
+            });
+
+            return {
+                Ok: {
+                    userOpHash,
+                    entryPoint: contracts.entryPoint,
+                    chainId: BigInt(chainId),
+                    userOperation: userOperationToCandid(userOperation)
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `UserOperation build failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Attach the owner's signature to a built UserOperation and send it to the bundler
+     * Sponsored operations reserve their worst-case gas cost before the bundler call,
+     * are refunded if it fails, and are settled to the actual cost by a timer.
+     * @param userOpHash - Hash returned by buildUserOperation
+     * @param signature - Owner signature over the userOpHash
+     * @returns The userOpHash accepted by the bundler, or error message
+     */
+    submitUserOperation: update([text, text], Result(text), async (userOpHash: string, signature: string) => {
+        try {
+            pruneUserOperations();
+            const pending = pendingUserOperations.get(userOpHash);
+            if (!pending) {
+                return { Err: "UserOperation not found or expired" };
+            }
+            if (!ethers.isHexString(signature) || ethers.dataLength(signature) === 0) {
+                return { Err: "Invalid signature" };
+            }
+
+            const userOperation = { ...pending.userOperation, signature };
+
+            // Budgets may have been consumed since the operation was built
+            const maxGasCost = getMaxGasCost(userOperation);
+            let usageKey: string | undefined;
+            if (pending.sponsorship) {
+                const decision = evaluateSponsorshipPolicy(pending.chainId, pending.sponsorship.owner,
+                    pending.sponsorship.target, pending.sponsorship.data, maxGasCost);
+                if ("Rejected" in decision) {
+                    return { Err: `Sponsorship rejected (${decision.Rejected.code}): ${decision.Rejected.reason}` };
+                }
+
+                // Reserve the worst-case cost before awaiting the bundler, so concurrent
+                // submissions cannot all pass the same budget check
+                usageKey = getSponsorshipUsageKey(pending.chainId, pending.sponsorship.owner);
+                recordSponsorshipSpend(pending.chainId, usageKey, maxGasCost);
+            }
+
+            // Taken out while the bundler call is in flight so it cannot be submitted twice
+            pendingUserOperations.delete(userOpHash);
+            let bundlerHash: string;
+            try {
+                bundlerHash = await getBundler(pending.chainId).send("eth_sendUserOperation", [
+                    userOperationToRpc(userOperation),
+                    pending.entryPoint
+                ]);
+            } catch (error) {
+                if (usageKey !== undefined) {
+                    recordSponsorshipSpend(pending.chainId, usageKey, -maxGasCost);
+                }
+                pendingUserOperations.set(userOpHash, pending);
+                throw error;
+            }
+
+            if (usageKey !== undefined) {
+                sponsoredOperations.set(userOpHash, { chainId: pending.chainId, usageKey, charged: maxGasCost, submittedAt: Date.now() });
+                startSponsorshipTimer();
+            }
+
+            return { Ok: bundlerHash };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `UserOperation submission failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Get the bundler receipt of a submitted UserOperation
+     * @param networkId - The network ID the operation was submitted to
+     * @param userOpHash - The UserOperation hash
+     * @returns PENDING until included, then CONFIRMED or FAILED with gas data
+     */
+    getUserOperationReceipt: update([nat64, text], Result(UserOperationReceiptResult), async (networkId: bigint, userOpHash: string) => {
+        try {
+            const receipt = await getBundler(Number(networkId)).send("eth_getUserOperationReceipt", [userOpHash]);
+            if (!receipt) {
+                return {
+                    Ok: {
+                        userOpHash,
+                        status: 'PENDING',
+                        txHash: "",
+                        actualGasUsed: "0",
+                        actualGasCost: "0"
+                    }
+                };
+            }
+
+            // Release the unused part of the worst-case sponsorship charge
+            settleSponsoredOperation(userOpHash, receipt);
+
+            return {
+                Ok: {
+                    userOpHash,
+                    status: receipt.success ? 'CONFIRMED' : 'FAILED',
+                    txHash: receipt.receipt?.transactionHash || "",
+                    actualGasUsed: BigInt(receipt.actualGasUsed).toString(),
+                    actualGasCost: BigInt(receipt.actualGasCost).toString()
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `UserOperation receipt lookup failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Read data from a ChatterPay contract with eth_call
+     * Encodes the call with the ABI registered for the contract type and decodes the outputs
+     * @param callParams - Network ID, contract type, optional address override, method and JSON params
+     * @returns Decoded outputs as a JSON string (integers as strings), or error message
+     */
+    readContract: update([ReadContractParams], Result(text), async (callParams: any) => {
+        try {
+            const contractType = callParams.contractType as string;
+            const contracts = chatterPayContracts[Number(callParams.networkId)] || {};
+            const contractAddress = fromOpt<string>(callParams.contractAddress)
+                || contracts[contractType as keyof typeof contracts];
+            if (!contractAddress || !ethers.isAddress(contractAddress)) {
+                return { Err: `${contractType} contract not configured for this network` };
+            }
+
+            const args = JSON.parse(callParams.params || "[]");
+            if (!Array.isArray(args)) {
+                return { Err: "Params must be a JSON array" };
+            }
+
+            const iface = getContractInterface(contractType, Number(callParams.networkId));
+            const fragment = resolveFunction(iface, callParams.methodName, args);
+            const provider = getProvider(Number(callParams.networkId));
+
+            const data = await provider.call({
+                to: contractAddress,
+                data: iface.encodeFunctionData(fragment, args)
+            });
+
+            return { Ok: JSON.stringify(decodeFunctionOutput(iface, fragment, data)) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Contract read failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Run many read calls in as few RPC requests as possible
+     * Calls are aggregated through Multicall3, or sent as JSON-RPC batches on chains
+     * without it. A failing call (bad params, revert) does not fail the batch.
+     * @param networkId - The chain to read from
+     * @param calls - Contract, method and params of each call
+     * @returns Per-call success and decoded JSON results, or error message
+     */
+    batchReadContracts: update([nat64, Vec(BatchReadCall)], Result(BatchReadResult), async (networkId: bigint, calls: any[]) => {
+        try {
+            const chainId = Number(networkId);
+            if (calls.length > MAX_BATCH_READ_CALLS) {
+                return { Err: `At most ${MAX_BATCH_READ_CALLS} calls per batch` };
+            }
+
+            // Encode every call; calls that cannot be encoded fail on their own
+            const contracts = chatterPayContracts[chainId] || {};
+            type PreparedCall = { target: string; iface: ethers.Interface; fragment: ethers.FunctionFragment; callData: string };
+            const prepared = calls.map((call): PreparedCall | { error: string } => {
+                try {
+                    const contractType = call.contractType as string;
+                    const target = fromOpt<string>(call.contractAddress)
+                        || contracts[contractType as keyof typeof contracts];
+                    if (!target || !ethers.isAddress(target)) {
+                        throw new Error(`${contractType} contract not configured for this network`);
+                    }
+
+                    const args = JSON.parse(call.params || "[]");
+                    if (!Array.isArray(args)) {
+                        throw new Error("Params must be a JSON array");
+                    }
+
+                    const iface = contractType === "erc20" ? getTokenInterface(chainId) : getContractInterface(contractType, chainId);
+                    const fragment = resolveFunction(iface, call.methodName, args);
+                    return { target, iface, fragment, callData: iface.encodeFunctionData(fragment, args) };
+                } catch (error: unknown) {
+                    return { error: error instanceof Error ? error.message : String(error) };
+                }
+            });
+
+            const encoded = prepared.filter((call): call is PreparedCall => !("error" in call));
+            const { method, outcomes } = encoded.length > 0
+                ? await executeBatchCalls(chainId, encoded)
+                : { method: "none", outcomes: [] };
+
+            let next = 0;
+            const results = prepared.map(call => {
+                if ("error" in call) {
+                    return { success: false, result: "", error: call.error };
+                }
+
+                const outcome = outcomes[next++];
+                if (!outcome.success) {
+                    return { success: false, result: "", error: decodeRevertData(outcome.returnData) || outcome.error || "Call reverted" };
+                }
+                try {
+                    return { success: true, result: JSON.stringify(decodeFunctionOutput(call.iface, call.fragment, outcome.returnData)), error: "" };
+                } catch (error: unknown) {
+                    return { success: false, result: "", error: `Decoding failed: ${error instanceof Error ? error.message : String(error)}` };
+                }
+            });
+
+            return { Ok: { method, results } };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Batch read failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Call any method on a ChatterPay contract using pre-signed transaction
+     * The signed calldata must encode exactly the declared method and params, and the
+     * signed value must equal the declared value
+     * @param callParams - Parameters including network ID, contract type, method name, params, and signed transaction
+     * @returns Transaction result with hash, status, and gas used
+     */
+    callContract: update([Record({
+        networkId: nat64,
+        contractType: text, // "factory", "implementation", "nft", etc.
+        methodName: text,
+        params: text, // JSON array of parameters
+        signedTransaction: text, // Pre-signed transaction
+        value: Opt(text), // Wei sent with the call, 0 if None
+        simulateFirst: Opt(bool) // Refuse to broadcast if a simulation reverts
+    })], Result(Record({
+        trackingId: text, // Poll with getTrackedTransaction
+        txHash: text,
+        status: text,
+        gasUsed: text
+    })), async (callParams: any) => {
+        try {
+            const contracts = chatterPayContracts[Number(callParams.networkId)];
+            if (!contracts) {
+                return { Err: "Network not supported" };
+            }
+
+            const contractType = callParams.contractType as keyof typeof contracts;
+            const contractAddress = contracts[contractType];
+            if (!contractAddress) {
+                return { Err: `${callParams.contractType} contract not configured for this network` };
+            }
+
+            const args = JSON.parse(callParams.params || "[]");
+            if (!Array.isArray(args)) {
+                return { Err: "Params must be a JSON array" };
+            }
+
+            const iface = getContractInterface(callParams.contractType, Number(callParams.networkId));
+            const fragment = resolveFunction(iface, callParams.methodName, args);
+            const expectedData = iface.encodeFunctionData(fragment, args);
+
+            const value = BigInt(fromOpt<string>(callParams.value) || "0");
+            if (value < 0n) {
+                return { Err: "Value must not be negative" };
+            }
+
+            const { tx: signedTx, mismatches } = await verifySignedTransaction(Number(callParams.networkId), callParams.signedTransaction, {
+                to: contractAddress,
+                value,
+                data: expectedData,
+                maxGasLimit: MAX_CONTRACT_CALL_GAS_LIMIT
+            });
+
+            // Report calldata differences as method or params mismatches
+            const dataMismatch = mismatches.findIndex(m => m.field === "data");
+            if (dataMismatch !== -1) {
+                mismatches[dataMismatch] = describeCalldataMismatch(iface, fragment, expectedData, signedTx.data);
+            }
+            if (mismatches.length > 0) {
+                return { Err: `Signed transaction does not match the declared call: ${formatMismatches(mismatches)}` };
+            }
+
+            if (fromOpt<boolean>(callParams.simulateFirst)) {
+                const simulation = await simulateTransaction(Number(callParams.networkId), {
+                    from: signedTx.from!,
+                    to: contractAddress,
+                    value: signedTx.value,
+                    data: signedTx.data
+                });
+                if (!simulation.success) {
+                    return { Err: `Simulation reverted: ${simulation.revertReason}` };
+                }
+            }
+
+            const provider = getProvider(Number(callParams.networkId));
+            
+            // Broadcast the pre-signed transaction
+            const tx = await provider.broadcastTransaction(callParams.signedTransaction as string);
+            await rememberTransaction(Number(callParams.networkId), tx);
+            recordNonceBroadcast(Number(callParams.networkId), tx);
+
+            return {
+                Ok: {
+                    trackingId: trackTransaction(Number(callParams.networkId), tx.hash),
+                    txHash: tx.hash,
+                    status: 'SUBMITTED',
+                    gasUsed: "0"
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Contract call failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Execute a native token transfer using pre-signed transaction
+     * The signed transaction must match the declared recipient, amount and chain, carry no
+     * calldata, and be signed by `from` when `from` is an EVM address
+     * @param params - Transfer parameters including to, from, amount, signed transaction, and chain ID
+     * @returns Transaction result with hash, status, gas used, and effective gas price
+     */
+    transferSigned: update([SignedTransferParams], Result(TransferResult), async (params: any) => {
+        try {
+            // Validate inputs; names are resolved and checked against the signed recipient
+            let to: string = params.to;
+            if (!ethers.isAddress(params.to)) {
+                const resolved = params.to.includes(".") ? await resolveNameToAddress(params.to, Number(params.chainId)) : null;
+                if (!resolved) {
+                    return { Err: "Invalid recipient address" };
+                }
+                to = resolved;
+            }
+
+            if (!ethers.isAddress(params.from)) {
+                return { Err: "Invalid sender address: from must be the signer's EVM address" };
+            }
+            if (!/^\d+$/.test(params.amount)) {
+                return { Err: "Amount must be an integer wei string" };
+            }
+            const value = BigInt(params.amount);
+
+            const { tx: signedTx, mismatches } = await verifySignedTransaction(Number(params.chainId), params.signedTransaction, {
+                from: params.from,
+                to,
+                value,
+                data: "0x",
+                maxGasLimit: MAX_TRANSFER_GAS_LIMIT
+            });
+            if (mismatches.length > 0) {
+                return { Err: `Signed transaction does not match the declared transfer: ${formatMismatches(mismatches)}` };
+            }
+
+            if (fromOpt<boolean>(params.simulateFirst)) {
+                const simulation = await simulateTransaction(Number(params.chainId), {
+                    from: signedTx.from!,
+                    to: signedTx.to!,
+                    value: signedTx.value,
+                    data: signedTx.data
+                });
+                if (!simulation.success) {
+                    return { Err: `Simulation reverted: ${simulation.revertReason}` };
+                }
+            }
+
+            const provider = getProvider(Number(params.chainId));
+            
+            // Broadcast the pre-signed transaction
+            const transaction = await provider.broadcastTransaction(params.signedTransaction as string);
+            await rememberTransaction(Number(params.chainId), transaction);
+            recordNonceBroadcast(Number(params.chainId), transaction);
+
+            return {
+                Ok: {
+                    trackingId: trackTransaction(Number(params.chainId), transaction.hash),
+                    txHash: transaction.hash,
+                    status: 'SUBMITTED',
+                    gasUsed: "0",
+                    effectiveGasPrice: "0"
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Transaction failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Allow or disallow a principal to reserve and release nonces
+     * Only the owner can perform this operation
+     * @param principal - The principal, as text
+     * @param allowed - Whether the principal may manage nonces
+     * @returns Success boolean or error message
+     */
+    setNonceManager: update([text, bool], Result(bool), (principal: string, allowed: boolean) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can manage nonce managers" };
+        }
+        try {
+            Principal.fromText(principal);
+        } catch {
+            return { Err: "Invalid principal" };
+        }
+
+        if (allowed) {
+            nonceManagers.add(principal);
+        } else {
+            nonceManagers.delete(principal);
+        }
+        return { Ok: true };
+    }),
+
+    /**
+     * Reserve the next nonce for an account
+     * Concurrent callers receive distinct nonces; a reservation is released
+     * if no transaction is broadcast with it within NONCE_RESERVATION_TTL.
+     * Only the owner and nonce managers can perform this operation
+     * @param chainId - The chain of the account
+     * @param address - The sending account
+     * @returns The nonce to sign with or error message
+     */
+    reserveNonce: update([nat64, text], Result(nat64), async (chainId: bigint, address: string) => {
+        try {
+            const caller = ic.caller().toString();
+            if (OWNER === null) {
+                return { Err: "Owner not initialized" };
+            }
+            if (caller !== OWNER && !nonceManagers.has(caller)) {
+                return { Err: "Only owner or a nonce manager can reserve nonces" };
+            }
+            if (!ethers.isAddress(address)) {
+                return { Err: "Invalid address" };
+            }
+
+            const { tracker, pendingNonce } = await reconcileNonces(Number(chainId), address);
+            const nonce = getNextFreeNonce(tracker, pendingNonce);
+            tracker.set(nonce, { reservedAt: Date.now(), reservedBy: caller });
+
+            return { Ok: BigInt(nonce) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Nonce reservation failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Release a reserved nonce that will not be used
+     * Only the owner and the principal that reserved the nonce can perform this operation
+     * @param chainId - The chain of the account
+     * @param address - The sending account
+     * @param nonce - The reserved nonce
+     * @returns Success boolean or error message
+     */
+    releaseNonce: update([nat64, text, nat64], Result(bool), (chainId: bigint, address: string, nonce: bigint) => {
+        const tracker = nonceTrackers.get(`${chainId}_${address.toLowerCase()}`);
+        const entry = tracker?.get(Number(nonce));
+        if (!tracker || !entry) {
+            return { Err: "Nonce not reserved" };
+        }
+        const caller = ic.caller().toString();
+        if (caller !== OWNER && caller !== entry.reservedBy) {
+            return { Err: "Only owner or the reserving principal can release a nonce" };
+        }
+        if (entry.txHash) {
+            return { Err: "Nonce already broadcast" };
+        }
+
+        tracker.delete(Number(nonce));
+        return { Ok: true };
+    }),
+
+    /**
+     * Get the nonce status of an account
+     * Reports gaps (nonces nothing was broadcast with, which keep later transactions
+     * queued) and broadcast transactions that have been holding up later ones. A
+     * transaction is only reported as stuck once it is older than STUCK_TRANSACTION_AGE.
+     * @param chainId - The chain of the account
+     * @param address - The account address
+     * @returns Nonce status or error message
+     */
+    getNonceStatus: update([nat64, text], Result(NonceStatus), async (chainId: bigint, address: string) => {
+        try {
+            if (!ethers.isAddress(address)) {
+                return { Err: "Invalid address" };
+            }
+
+            const { tracker, minedNonce, pendingNonce } = await reconcileNonces(Number(chainId), address);
+            const now = Date.now();
+            const broadcast = Array.from(tracker.entries())
+                .filter(([, entry]) => entry.txHash)
+                .sort(([a], [b]) => a - b);
+            const highestBroadcast = broadcast.length > 0 ? broadcast[broadcast.length - 1][0] : -1;
+
+            // Nonces the node is waiting for before it can include the queued ones
+            const gaps: number[] = [];
+            for (let nonce = pendingNonce; nonce < highestBroadcast; nonce++) {
+                if (!tracker.get(nonce)?.txHash) {
+                    gaps.push(nonce);
+                }
+            }
+
+            const stuckTransactions = [];
+            for (const [nonce, entry] of broadcast) {
+                // Fresh broadcasts may still be propagating to the node's pool
+                const age = now - entry.broadcastAt!;
+                if (age <= STUCK_TRANSACTION_AGE) {
+                    continue;
+                }
+                if (nonce >= pendingNonce) {
+                    stuckTransactions.push({
+                        nonce: BigInt(nonce),
+                        txHash: entry.txHash!,
+                        ageSeconds: BigInt(Math.floor(age / 1000)),
+                        reason: gaps.length > 0 ? `Queued behind missing nonce ${gaps[0]}` : "Not in the node's pending pool"
+                    });
+                } else if (nonce === minedNonce && highestBroadcast > nonce) {
+                    stuckTransactions.push({
+                        nonce: BigInt(nonce),
+                        txHash: entry.txHash!,
+                        ageSeconds: BigInt(Math.floor(age / 1000)),
+                        reason: `Pending and blocking ${highestBroadcast - nonce} later transaction(s)`
+                    });
+                }
+            }
+
+            return {
+                Ok: {
+                    address: ethers.getAddress(address),
+                    minedNonce: BigInt(minedNonce),
+                    pendingNonce: BigInt(pendingNonce),
+                    nextNonce: BigInt(getNextFreeNonce(tracker, pendingNonce)),
+                    reservedNonces: BigUint64Array.from(Array.from(tracker.entries())
+                        .filter(([, entry]) => !entry.txHash)
+                        .map(([nonce]) => BigInt(nonce))
+                        .sort((a, b) => (a < b ? -1 : 1))),
+                    gaps: BigUint64Array.from(gaps.map(BigInt)),
+                    stuckTransactions
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Nonce status failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Build an unsigned replacement for a pending transaction
+     * Speed-up keeps the original call; cancel sends zero value to the sender itself.
+     * Fees are at least the node's minimum bump over the transaction being replaced
+     * and never below current network fees.
+     * @param request - Pending transaction, mode and optional fee bump
+     * @returns Unsigned replacement for the sender to sign or error message
+     */
+    buildReplacementTransaction: update([ReplacementRequest], Result(ReplacementDraft), async (request: any) => {
+        try {
+            const chainId = Number(request.chainId);
+            const provider = getProvider(chainId);
+            const original = await provider.getTransaction(request.txHash);
+            if (!original) {
+                return { Err: "Transaction not found" };
+            }
+            if (original.blockNumber !== null) {
+                return { Err: "Transaction already mined" };
+            }
+
+            // Replacements must outbid the latest transaction broadcast at this nonce
+            const family = await getReplacementFamily(chainId, original);
+            const latest = family.transactions[family.transactions.length - 1];
+            const requestedBump = fromOpt<bigint>(request.feeBumpPercent) ?? MIN_REPLACEMENT_BUMP_PERCENT;
+            const bump = requestedBump > MIN_REPLACEMENT_BUMP_PERCENT ? requestedBump : MIN_REPLACEMENT_BUMP_PERCENT;
+            const max = (a: bigint, b: bigint | null) => (b !== null && b > a ? b : a);
+
+            const feeData = await provider.getFeeData();
+            const minMaxFeePerGas = bumpFee(latest.maxFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT);
+            const minMaxPriorityFeePerGas = latest.maxPriorityFeePerGas !== null
+                ? bumpFee(latest.maxPriorityFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)
+                : null;
+            const maxPriorityFeePerGas = latest.maxPriorityFeePerGas !== null
+                ? max(bumpFee(latest.maxPriorityFeePerGas, bump), feeData.maxPriorityFeePerGas)
+                : null;
+            const maxFeePerGas = max(
+                max(bumpFee(latest.maxFeePerGas, bump), maxPriorityFeePerGas !== null ? feeData.maxFeePerGas : feeData.gasPrice),
+                maxPriorityFeePerGas
+            );
+
+            const call = request.cancel
+                ? { to: original.from, value: 0n, data: "0x" }
+                : { to: original.to, value: original.value, data: original.data };
+            const gasLimit = request.cancel
+                ? await provider.estimateGas({ from: original.from, to: original.from, value: 0n })
+                : original.gasLimit;
+
+            const replacement = ethers.Transaction.from({
+                type: original.type,
+                chainId: original.chainId,
+                nonce: original.nonce,
+                gasLimit,
+                ...call,
+                ...(maxPriorityFeePerGas !== null
+                    ? { maxFeePerGas, maxPriorityFeePerGas, accessList: original.accessList ?? [] }
+                    : { gasPrice: maxFeePerGas })
+            });
+
+            return {
+                Ok: {
+                    unsignedTransaction: replacement.unsignedSerialized,
+                    nonce: BigInt(original.nonce),
+                    gasLimit: gasLimit.toString(),
+                    maxFeePerGas: maxFeePerGas.toString(),
+                    maxPriorityFeePerGas: maxPriorityFeePerGas?.toString() || "",
+                    minMaxFeePerGas: minMaxFeePerGas.toString(),
+                    minMaxPriorityFeePerGas: minMaxPriorityFeePerGas?.toString() || ""
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Replacement build failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Broadcast a signed replacement of a pending transaction
+     * The replacement must keep the original to, value and data, or be a cancel
+     * (zero-value self-send without data), and bump both fees.
+     * @param chainId - The chain of the original transaction
+     * @param originalTxHash - Hash of the transaction being replaced
+     * @param signedTransaction - The signed replacement
+     * @returns Hash of the replacement or error message
+     */
+    broadcastReplacement: update([nat64, text, text], Result(text), async (chainId: bigint, originalTxHash: string, signedTransaction: string) => {
+        try {
+            const provider = getProvider(Number(chainId));
+            let family = findReplacementFamily(Number(chainId), originalTxHash);
+            if (!family) {
+                const original = await provider.getTransaction(originalTxHash);
+                if (!original) {
+                    return { Err: "Original transaction not found" };
+                }
+                family = await getReplacementFamily(Number(chainId), original);
+            }
+
+            const tx = ethers.Transaction.from(signedTransaction);
+            if (!tx.isSigned() || !tx.from) {
+                return { Err: "Transaction is not signed" };
+            }
+
+            const latest = family.transactions[family.transactions.length - 1];
+            const signedFee = tx.maxFeePerGas ?? tx.gasPrice ?? 0n;
+            const mismatches: TransactionMismatch[] = [];
+            if (ethers.getAddress(tx.from) !== ethers.getAddress(family.from)) {
+                mismatches.push({ field: "from", declared: family.from, signed: tx.from });
+            }
+            if (tx.nonce !== family.nonce) {
+                mismatches.push({ field: "nonce", declared: family.nonce.toString(), signed: tx.nonce.toString() });
+            }
+            if (tx.chainId !== chainId) {
+                mismatches.push({ field: "chainId", declared: chainId.toString(), signed: tx.chainId.toString() });
+            }
+            // A replacement either keeps the original call (speed-up) or sends nothing to the sender (cancel)
+            const isCancel = tx.to !== null && ethers.getAddress(tx.to) === ethers.getAddress(family.from)
+                && tx.value === 0n && tx.data === "0x";
+            if (!isCancel) {
+                const to = family.call.to === null ? "" : ethers.getAddress(family.call.to);
+                if ((tx.to === null ? "" : ethers.getAddress(tx.to)) !== to) {
+                    mismatches.push({ field: "to", declared: to, signed: tx.to ?? "" });
+                }
+                if (tx.value !== family.call.value) {
+                    mismatches.push({ field: "value", declared: family.call.value.toString(), signed: tx.value.toString() });
+                }
+                if (tx.data.toLowerCase() !== family.call.data.toLowerCase()) {
+                    mismatches.push({ field: "data", declared: family.call.data, signed: tx.data });
+                }
+            }
+            if (signedFee < bumpFee(latest.maxFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)) {
+                mismatches.push({ field: "maxFeePerGas", declared: `>= ${bumpFee(latest.maxFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)}`, signed: signedFee.toString() });
+            }
+            if (latest.maxPriorityFeePerGas !== null && (tx.maxPriorityFeePerGas ?? 0n) < bumpFee(latest.maxPriorityFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)) {
+                mismatches.push({ field: "maxPriorityFeePerGas", declared: `>= ${bumpFee(latest.maxPriorityFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)}`, signed: (tx.maxPriorityFeePerGas ?? 0n).toString() });
+            }
+            mismatches.push(...await checkGasCaps(Number(chainId), tx, tx.data === "0x" ? MAX_TRANSFER_GAS_LIMIT : MAX_CONTRACT_CALL_GAS_LIMIT));
+            if (mismatches.length > 0) {
+                return { Err: `Signed transaction is not a valid replacement: ${formatMismatches(mismatches)}` };
+            }
+
+            const response = await provider.broadcastTransaction(signedTransaction);
+            await rememberTransaction(Number(chainId), response);
+            recordNonceBroadcast(Number(chainId), response);
+            await getReplacementFamily(Number(chainId), response);
+
+            return { Ok: response.hash };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Replacement broadcast failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Get which transaction of a replacement family was mined
+     * @param chainId - The chain of the family
+     * @param txHash - Hash of the original transaction or any replacement
+     * @returns Family members and the mined one, or error message
+     */
+    getReplacementStatus: update([nat64, text], Result(ReplacementFamilyResult), async (chainId: bigint, txHash: string) => {
+        try {
+            const family = findReplacementFamily(Number(chainId), txHash);
+            if (!family) {
+                return { Err: "Transaction has no tracked replacements" };
+            }
+
+            const provider = getProvider(Number(chainId));
+            const result = {
+                chainId,
+                from: family.from,
+                nonce: BigInt(family.nonce),
+                transactions: family.transactions.map(member => member.hash),
+                status: 'PENDING',
+                minedTxHash: ""
+            };
+
+            const receipts = await Promise.all(family.transactions.map(member => provider.getTransactionReceipt(member.hash)));
+            const receipt = receipts.find(candidate => candidate !== null);
+            if (receipt) {
+                return { Ok: { ...result, status: receipt.status === 1 ? 'MINED' : 'FAILED', minedTxHash: receipt.hash } };
+            }
+
+            // The nonce was used by a transaction the canister never saw
+            const minedNonce = await provider.getTransactionCount(family.from, "latest");
+            if (minedNonce > family.nonce) {
+                const replacedBy = await findReplacementTransaction(provider, family.from, family.nonce, family.firstSeenBlock);
+                if (!replacedBy) {
+                    // The nonce is used but the scan window did not reach the transaction
+                    return { Ok: { ...result, status: 'UNKNOWN' } };
+                }
+                return { Ok: { ...result, status: 'REPLACED', minedTxHash: replacedBy } };
+            }
+
+            return { Ok: result };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Replacement status failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Get the lifecycle state of a transaction broadcast by transferSigned or callContract
+     * @param trackingId - The tracking ID returned at broadcast
+     * @returns The tracked transaction or error message
+     */
+    getTrackedTransaction: query([text], Result(TrackedTransaction), (trackingId: string) => {
+        const tracked = trackedTransactions.get(trackingId);
+        if (!tracked) {
+            return { Err: "Tracking ID not found" };
+        }
+        return { Ok: trackedTransactionToCandid(tracked) };
+    }),
+
+    /**
+     * List tracked transactions, optionally in one lifecycle state
+     * Lets the transactions canister keep its pending list in sync
+     * @param status - Optional state filter (e.g. PENDING)
+     * @returns Tracked transactions, oldest first
+     */
+    getTrackedTransactions: query([Opt(text)], Vec(TrackedTransaction), (status: any) => {
+        const filter = fromOpt<string>(status);
+        return Array.from(trackedTransactions.values())
+            .filter(tracked => !filter || tracked.status === filter)
+            .sort((a, b) => a.submittedAt - b.submittedAt)
+            .map(trackedTransactionToCandid);
+    }),
+
+    /**
+     * Advance all open tracked transactions now instead of waiting for the timer
+     * Owner only, since every call fans out RPC requests for all open transactions.
+     * @returns Number of transactions still open or error message
+     */
+    reconcileTrackedTransactions: update([], Result(nat64), async () => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can reconcile tracked transactions" };
+        }
+
+        try {
+            startTrackingTimer();
+            return { Ok: BigInt(await reconcileTrackedTransactions()) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Reconciliation failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Dry-run a transaction at the pending block without broadcasting it
+     * @param params - Network and either a signed transaction or call fields
+     * @returns Revert reason, gas estimate and expected ERC-20 balance changes, or error message
+     */
+    simulateTransaction: update([SimulationParams], Result(SimulationResult), async (params: any) => {
+        try {
+            const signedTransaction = fromOpt<string>(params.signedTransaction);
+            let tx: { from?: string; to: string; value: bigint; data: string };
+            if (signedTransaction) {
+                const decoded = ethers.Transaction.from(signedTransaction);
+                if (!decoded.to) {
+                    return { Err: "Contract deployments cannot be simulated" };
+                }
+                tx = { from: decoded.from || undefined, to: decoded.to, value: decoded.value, data: decoded.data };
+            } else {
+                const to = fromOpt<string>(params.to);
+                const from = fromOpt<string>(params.from);
+                if (!to || !ethers.isAddress(to) || (from !== undefined && !ethers.isAddress(from))) {
+                    return { Err: "Invalid from or to address" };
+                }
+                tx = { from, to, value: BigInt(fromOpt<string>(params.value) || "0"), data: fromOpt<string>(params.data) || "0x" };
+            }
+
+            return { Ok: await simulateTransaction(Number(params.networkId), tx) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Simulation failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Set the threshold ECDSA key used for user signers (owner only)
+     * Changing the key changes every derived signer address
+     * @param keyName - dfx_test_key, test_key_1 or key_1
+     * @returns Success boolean or error message
+     */
+    updateEcdsaKeyName: update([text], Result(bool), (keyName: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update the ECDSA key" };
+        }
+        if (!ECDSA_KEY_NAMES.includes(keyName)) {
+            return { Err: `Unknown ECDSA key: ${keyName}` };
+        }
+
+        ecdsaKeyName = keyName;
+        signerAddresses.clear();
+        return { Ok: true };
+    }),
+
+    /**
+     * Get the EVM address of a user's canister-held signing key
+     * @param userId - The user identifier (e.g. the user hash)
+     * @returns The derived address or error message
+     */
+    getSignerAddress: update([text], Result(text), async (userId: string) => {
+        try {
+            if (!userId) {
+                return { Err: "User ID is required" };
+            }
+            return { Ok: await getSignerAddress(userId) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Signer address derivation failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Sign a transaction with a user's threshold ECDSA key (owner only)
+     * Only EIP-1559 transactions are accepted, except on chains registered without EIP-1559.
+     * @param userId - The user identifier
+     * @param unsignedTransaction - Serialized unsigned transaction
+     * @returns The signed transaction and its hash, or error message
+     */
+    signTransaction: update([text, text], Result(CanisterSignedTransaction), async (userId: string, unsignedTransaction: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can sign transactions" };
+        }
+
+        try {
+            const tx = ethers.Transaction.from(unsignedTransaction);
+            if (tx.isSigned()) {
+                return { Err: "Transaction is already signed" };
+            }
+            const chain = chainRegistry.get(Number(tx.chainId));
+            if (!chain) {
+                return { Err: `Unsupported chain ID: ${tx.chainId}` };
+            }
+            if (tx.type !== 2 && chain.eip1559) {
+                return { Err: "Only EIP-1559 transactions can be signed on this chain" };
+            }
+
+            tx.signature = await signDigest(userId, tx.unsignedHash);
+
+            return {
+                Ok: {
+                    signedTransaction: tx.serialized,
+                    txHash: tx.hash!,
+                    from: tx.from!
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Transaction signing failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Sign a UserOperation hash with a user's threshold ECDSA key (owner only)
+     * @param userId - The user identifier (the smart account owner)
+     * @param userOpHash - Hash returned by buildUserOperation
+     * @param ethSignedMessage - Sign the EIP-191 message hash, for accounts that validate it
+     * @returns The 65-byte signature for submitUserOperation or error message
+     */
+    signUserOperation: update([text, text, bool], Result(text), async (userId: string, userOpHash: string, ethSignedMessage: boolean) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can sign UserOperations" };
+        }
+
+        try {
+            if (!ethers.isHexString(userOpHash, 32)) {
+                return { Err: "Invalid UserOperation hash" };
+            }
+
+            const digest = ethSignedMessage ? ethers.hashMessage(ethers.getBytes(userOpHash)) : userOpHash;
+            return { Ok: (await signDigest(userId, digest)).serialized };
+        } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
-            return { Err: `Wallet creation failed: ${message}` };
+            return { Err: `UserOperation signing failed: ${message}` };
         }
     }),
 
     /**
-     * Call any method on a ChatterPay contract using pre-signed transaction
-     * @param callParams - Parameters including network ID, contract type, method name, params, and signed transaction
-     * @returns Transaction result with hash, status, and gas used
+     * Get the current status of a transaction on the default chain
+     * @param txHash - The transaction hash to check
+     * @returns Transaction status with confirmations, gas used, and effective gas price
      */
-    callContract: update([Record({
-        networkId: nat64,
-        contractType: text, // "factory", "implementation", "nft", etc.
-        methodName: text,
-        params: text, // JSON array of parameters
-        signedTransaction: text // Pre-signed transaction
-    })], Result(Record({
-        txHash: text,
-        status: text,
-        gasUsed: text
-    })), async (callParams: any) => {
+    getTransactionStatus: query([text], Result(TransactionStatusResult), async (txHash: string) => {
         try {
-            const contracts = chatterPayContracts[Number(callParams.networkId)];
-            if (!contracts) {
-                return { Err: "Network not supported" };
+            const state = await getTransactionState(DEFAULT_CHAIN_ID, txHash);
+            if (!state) {
+                return { Err: "Transaction not found" };
             }
 
-            const contractType = callParams.contractType as keyof typeof contracts;
-            const contractAddress = contracts[contractType];
-            if (!contractAddress) {
-                return { Err: `${callParams.contractType} contract not configured for this network` };
+            return {
+                Ok: {
+                    status: state.status,
+                    confirmations: state.confirmations,
+                    gasUsed: state.gasUsed,
+                    effectiveGasPrice: state.effectiveGasPrice
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: message };
+        }
+    }),
+
+    /**
+     * Get the current status of a transaction on a specific chain without waiting for it
+     * @param chainId - The chain the transaction was sent to
+     * @param txHash - The transaction hash to check
+     * @returns PENDING, CONFIRMED with confirmations, FAILED with the decoded revert reason,
+     *          DROPPED, REPLACED with the replacement hash, or UNKNOWN when the nonce
+     *          was used by a transaction that could not be found
+     */
+    getTransactionStatusOnChain: update([nat64, text], Result(TransactionStateResult), async (chainId: bigint, txHash: string) => {
+        try {
+            if (!ethers.isHexString(txHash, 32)) {
+                return { Err: "Invalid transaction hash" };
             }
 
-            const abi = contractABIs[callParams.contractType as string];
-            if (!abi) {
-                return { Err: `ABI not configured for ${callParams.contractType}` };
+            const state = await getTransactionState(Number(chainId), txHash);
+            if (!state) {
+                return { Err: "Transaction not found" };
             }
 
-            const provider = getProvider(Number(callParams.networkId));
-            
-            // Broadcast the pre-signed transaction
-            const tx = await provider.broadcastTransaction(callParams.signedTransaction as string);
-            const receipt = await tx.wait();
+            // Remember pending transactions so a later lookup can tell dropped from replaced
+            if (state.status === 'PENDING') {
+                const tx = await getProvider(Number(chainId)).getTransaction(txHash);
+                if (tx) {
+                    await rememberTransaction(Number(chainId), tx);
+                }
+            }
+            return { Ok: state };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Transaction status lookup failed: ${message}` };
+        }
+    }),
 
-            if (!receipt) {
-                return { Err: "Transaction receipt not found" };
+    /**
+     * Index events of the factory, NFT and given token contracts over a block range
+     * Logs are fetched in provider-sized chunks and decoded with the registered ABIs.
+     * When the cursor's block hash no longer matches the chain, the pass reports a
+     * reorg and returns a cursor rewound to the newest block hash seen by earlier passes
+     * that is still canonical, or by the chain's confirmation depth if there is none.
+     * @param params - Network, block range, previous cursor and token addresses
+     * @returns Decoded events and the cursor for the next pass, or error message
+     */
+    indexEvents: update([IndexEventsParams], Result(IndexEventsResult), async (params: any) => {
+        try {
+            const chainId = Number(params.networkId);
+            const provider = getProvider(chainId);
+            const contracts = chatterPayContracts[chainId] || {};
+
+            // Emitter address -> contract type and ABI
+            const emitters = new Map<string, { contractType: string; iface: ethers.Interface }>();
+            for (const contractType of ["factory", "nft"] as const) {
+                const address = contracts[contractType];
+                if (address) {
+                    emitters.set(address.toLowerCase(), { contractType, iface: getContractInterface(contractType, chainId) });
+                }
+            }
+            const tokenInterface = getTokenInterface(chainId);
+            for (const tokenAddress of params.tokenAddresses as string[]) {
+                if (!ethers.isAddress(tokenAddress)) {
+                    return { Err: `Invalid token address: ${tokenAddress}` };
+                }
+                emitters.set(tokenAddress.toLowerCase(), { contractType: "erc20", iface: tokenInterface });
+            }
+            if (emitters.size === 0) {
+                return { Err: "No contracts to index on this network" };
             }
 
+            const cursor = fromOpt<{ blockNumber: bigint; blockHash: string }>(params.cursor);
+            if (cursor) {
+                const cursorBlock = await provider.getBlock(Number(cursor.blockNumber));
+                if (!cursorBlock || cursorBlock.hash?.toLowerCase() !== cursor.blockHash.toLowerCase()) {
+                    let rewind = await findIndexedForkPoint(provider, chainId, Number(cursor.blockNumber));
+                    if (!rewind) {
+                        const depth = chainRegistry.get(chainId)?.confirmations ?? 1;
+                        const rewindBlock = await provider.getBlock(Math.max(0, Number(cursor.blockNumber) - depth));
+                        if (!rewindBlock?.hash) {
+                            return { Err: "Rewind block not found" };
+                        }
+                        rewind = { number: rewindBlock.number, hash: rewindBlock.hash };
+                    }
+                    return {
+                        Ok: {
+                            events: [],
+                            cursor: { blockNumber: BigInt(rewind.number), blockHash: rewind.hash },
+                            reorgDetected: true
+                        }
+                    };
+                }
+            }
+
+            const fromBlock = cursor ? Number(cursor.blockNumber) + 1 : Number(params.fromBlock);
+            const head = await provider.getBlockNumber();
+            const requestedTo = fromOpt<bigint>(params.toBlock);
+            const toBlock = Math.min(requestedTo !== undefined ? Number(requestedTo) : head, head, fromBlock + MAX_INDEX_BLOCKS - 1);
+            if (toBlock < fromBlock) {
+                return {
+                    Ok: {
+                        events: [],
+                        cursor: cursor || { blockNumber: BigInt(fromBlock - 1), blockHash: (await provider.getBlock(fromBlock - 1))?.hash || "" },
+                        reorgDetected: false
+                    }
+                };
+            }
+
+            // The cursor hash is read before the logs: if the chain reorganizes in between,
+            // the next pass finds a stale cursor and re-indexes instead of skipping events
+            const end = await provider.getBlock(toBlock);
+            if (!end?.hash) {
+                return { Err: `Block ${toBlock} not found` };
+            }
+
+            const { logs, lastBlock } = await getLogsChunked(provider, Array.from(emitters.keys()), fromBlock, toBlock, MAX_INDEXED_EVENTS);
+            let last = { number: end.number, hash: end.hash };
+            if (lastBlock < toBlock) {
+                // The pass stopped early; the hash of its last block only counts if toBlock is unchanged
+                const [stoppedAt, endNow] = await Promise.all([provider.getBlock(lastBlock), provider.getBlock(toBlock)]);
+                if (!stoppedAt?.hash || endNow?.hash !== end.hash) {
+                    return { Err: "Chain reorganized during the pass; retry with the same cursor" };
+                }
+                last = { number: stoppedAt.number, hash: stoppedAt.hash };
+            }
+
+            const events = logs
+                .filter(log => !log.removed)
+                .map(log => {
+                    const emitter = emitters.get(log.address.toLowerCase())!;
+                    return decodeIndexedLog(log, emitter.contractType, emitter.iface);
+                });
+
+            rememberIndexedBlocks(chainId, [
+                ...logs.filter(log => !log.removed).map(log => ({ number: log.blockNumber, hash: log.blockHash })),
+                last
+            ]);
+
             return {
                 Ok: {
-                    txHash: tx.hash,
-                    status: receipt.status === 1 ? 'CONFIRMED' : 'FAILED',
-                    gasUsed: receipt.gasUsed.toString()
+                    events,
+                    cursor: { blockNumber: BigInt(last.number), blockHash: last.hash },
+                    reorgDetected: false
                 }
             };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
-            return { Err: `Contract call failed: ${message}` };
+            return { Err: `Event indexing failed: ${message}` };
         }
     }),
 
     /**
-     * Execute a native token transfer using pre-signed transaction
-     * @param params - Transfer parameters including to, from, amount, signed transaction, and chain ID
-     * @returns Transaction result with hash, status, gas used, and effective gas price
+     * Set the tokens canister whose registered tokens are checked for approvals (owner only)
+     * @param canisterId - Principal of the tokens canister
+     * @returns Success boolean or error message
      */
-    transferSigned: update([SignedTransferParams], Result(TransferResult), async (params: any) => {
+    setTokensCanister: update([text], Result(bool), (canisterId: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update the tokens canister" };
+        }
+
+        try {
+            tokensCanisterId = Principal.fromText(canisterId).toText();
+        } catch {
+            return { Err: "Invalid canister ID" };
+        }
+        return { Ok: true };
+    }),
+
+    /**
+     * List a wallet's nonzero ERC-20 allowances
+     * Spenders are found from the wallet's Approval logs on the given or registered
+     * tokens, then checked with current `allowance` reads. One call scans at most
+     * MAX_APPROVAL_SCAN_BLOCKS blocks or MAX_INDEXED_EVENTS logs forward from fromBlock;
+     * when truncated, call again from nextFromBlock and merge by token and spender.
+     * @param params - Network, wallet, tokens and first block to scan
+     * @returns Nonzero allowances and the scanned range, or error message
+     */
+    getTokenApprovals: update([ApprovalsParams], Result(ApprovalsResult), async (params: any) => {
         try {
-            // Validate inputs
-            if (!ethers.isAddress(params.to as string)) {
-                return { Err: "Invalid recipient address" };
+            const chainId = Number(params.networkId);
+            if (!ethers.isAddress(params.wallet)) {
+                return { Err: "Invalid wallet address" };
             }
+            const tokenAddresses = fromOpt<string[]>(params.tokenAddresses);
+            const tokens = tokenAddresses === undefined ? await getRegisteredTokenAddresses(chainId) : tokenAddresses.map(token => {
+                if (!ethers.isAddress(token)) {
+                    throw new Error(`Invalid token address: ${token}`);
+                }
+                return ethers.getAddress(token);
+            });
+            const wallet = ethers.getAddress(params.wallet);
+            const provider = getProvider(chainId);
+            const iface = getTokenInterface(chainId);
 
-            const provider = getProvider(Number(params.chainId));
-            
-            // Broadcast the pre-signed transaction
-            const transaction = await provider.broadcastTransaction(params.signedTransaction as string);
+            const head = await provider.getBlockNumber();
+            const fromBlock = Number(params.fromBlock);
+            if (fromBlock > head + 1) {
+                return { Err: `fromBlock ${fromBlock} is beyond the chain head ${head}` };
+            }
+            const toBlock = Math.min(fromBlock + MAX_APPROVAL_SCAN_BLOCKS - 1, head);
+            const approvalTopic = iface.getEvent("Approval")!.topicHash;
+            const { logs, lastBlock } = tokens.length > 0 && fromBlock <= toBlock
+                ? await getLogsChunked(provider, tokens, fromBlock, toBlock, MAX_INDEXED_EVENTS, [approvalTopic, ethers.zeroPadValue(wallet, 32)])
+                : { logs: [], lastBlock: toBlock };
 
-            // Wait for confirmation with timeout
-            const receipt = await Promise.race([
-                transaction.wait(1), // Wait for 1 confirmation
-                new Promise<TransactionReceipt>((_, reject) => 
-                    setTimeout(() => reject(new Error("Transaction timeout")), 60000)
-                )
-            ]);
+            // Latest approval block per (token, spender)
+            const pairs = new Map<string, { token: string; spender: string; block: number }>();
+            for (const log of logs) {
+                const spender = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+                const token = ethers.getAddress(log.address);
+                const key = `${token}_${spender}`;
+                pairs.set(key, { token, spender, block: Math.max(log.blockNumber, pairs.get(key)?.block ?? 0) });
+            }
 
-            if (!receipt) {
-                return { Err: "Transaction failed to confirm" };
+            const approved = Array.from(pairs.values());
+            const approvedTokens = Array.from(new Set(approved.map(pair => pair.token)));
+            const { outcomes } = approved.length > 0
+                ? await executeBatchCalls(chainId, [
+                    ...approved.map(pair => ({ target: pair.token, callData: iface.encodeFunctionData("allowance", [wallet, pair.spender]) })),
+                    ...approvedTokens.flatMap(token => [
+                        { target: token, callData: iface.encodeFunctionData("symbol") },
+                        { target: token, callData: iface.encodeFunctionData("decimals") }
+                    ])
+                ])
+                : { outcomes: [] };
+
+            const decode = (outcome: { success: boolean; returnData: string }, method: string) => {
+                try {
+                    return outcome.success ? iface.decodeFunctionResult(method, outcome.returnData)[0] : undefined;
+                } catch {
+                    return undefined;
+                }
+            };
+            const metadata = new Map(approvedTokens.map((token, index) => {
+                const offset = approved.length + index * 2;
+                return [token, {
+                    symbol: decode(outcomes[offset], "symbol") ?? "",
+                    decimals: decode(outcomes[offset + 1], "decimals") ?? 18n
+                }];
+            }));
+
+            const approvals = [];
+            for (const [index, pair] of approved.entries()) {
+                const allowance: bigint | undefined = decode(outcomes[index], "allowance");
+                if (!allowance) {
+                    continue;
+                }
+                const token = metadata.get(pair.token)!;
+                approvals.push({
+                    token: pair.token,
+                    symbol: token.symbol,
+                    decimals: BigInt(token.decimals),
+                    spender: pair.spender,
+                    allowance: allowance.toString(),
+                    unlimited: allowance >= UNLIMITED_ALLOWANCE,
+                    lastApprovalBlock: BigInt(pair.block)
+                });
             }
 
             return {
                 Ok: {
-                    txHash: transaction.hash,
-                    status: receipt.status === 1 ? 'CONFIRMED' : 'FAILED',
-                    gasUsed: receipt.gasUsed.toString(),
-                    effectiveGasPrice: (receipt.gasPrice || 0n).toString()
+                    wallet,
+                    approvals,
+                    scannedFromBlock: BigInt(fromBlock),
+                    scannedToBlock: BigInt(lastBlock),
+                    truncated: lastBlock < head,
+                    nextFromBlock: BigInt(lastBlock + 1)
                 }
             };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
-            return { Err: `Transaction failed: ${message}` };
+            return { Err: `Approvals lookup failed: ${message}` };
         }
     }),
 
     /**
-     * Get the current status of a transaction
-     * @param txHash - The transaction hash to check
-     * @returns Transaction status with confirmations, gas used, and effective gas price
+     * Build unsigned calls that revoke ERC-20 allowances of a smart account
+     * @param networkId - The chain of the wallet
+     * @param wallet - The ChatterPay smart account
+     * @param revokes - Token and spender of each allowance to revoke
+     * @returns One payload per allowance or error message
      */
-    getTransactionStatus: query([text], Result(TransactionStatusResult), async (txHash: string) => {
+    buildRevokeApprovals: query([nat64, text, Vec(RevokeRequest)], Result(Vec(RevokePayload)), (networkId: bigint, wallet: string, revokes: any[]) => {
         try {
-            const provider = getProvider(); // Use default provider
-            const tx = await provider.getTransaction(txHash);
-            if (!tx) {
-                return { Err: "Transaction not found" };
+            if (!ethers.isAddress(wallet)) {
+                return { Err: "Invalid wallet address" };
             }
 
-            const receipt = await tx.wait();
-            if (!receipt) {
-                return { Err: "Receipt not found" };
-            }
-            
-            const confirmations = await tx.confirmations();
+            const chainId = Number(networkId);
+            const tokenInterface = getTokenInterface(chainId);
+            const accountInterface = getContractInterface("implementation", chainId);
 
             return {
-                Ok: {
-                    status: receipt.status === 1 ? 'CONFIRMED' : 'FAILED',
-                    confirmations: BigInt(confirmations || 0),
-                    gasUsed: receipt.gasUsed.toString(),
-                    effectiveGasPrice: (receipt.gasPrice || 0n).toString()
-                }
+                Ok: revokes.map(revoke => {
+                    if (!ethers.isAddress(revoke.token) || !ethers.isAddress(revoke.spender)) {
+                        throw new Error(`Invalid token or spender: ${revoke.token}, ${revoke.spender}`);
+                    }
+                    const approveData = tokenInterface.encodeFunctionData("approve", [revoke.spender, 0n]);
+                    return {
+                        token: ethers.getAddress(revoke.token),
+                        spender: ethers.getAddress(revoke.spender),
+                        approveData,
+                        to: ethers.getAddress(wallet),
+                        data: accountInterface.encodeFunctionData("execute", [revoke.token, 0n, approveData])
+                    };
+                })
             };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : String(error);
-            return { Err: message };
+            return { Err: `Revoke payload build failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Set the ENS-compatible registry used for names on a chain (owner only)
+     * Without one, names are resolved through ENS on mainnet
+     * @param chainId - The chain ID
+     * @param registry - Registry address, or empty to remove it
+     * @returns Success boolean or error message
+     */
+    setNameRegistry: update([nat64, text], Result(bool), (chainId: bigint, registry: string) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can update name registries" };
+        }
+        if (!chainRegistry.has(Number(chainId))) {
+            return { Err: `Unsupported chain ID: ${chainId}` };
+        }
+
+        if (!registry) {
+            delete nameRegistries[Number(chainId)];
+        } else if (!ethers.isAddress(registry)) {
+            return { Err: "Invalid registry address" };
+        } else {
+            nameRegistries[Number(chainId)] = ethers.getAddress(registry);
+        }
+        nameCache.clear();
+        return { Ok: true };
+    }),
+
+    /**
+     * Resolve a name such as alice.eth to an address
+     * @param name - The name
+     * @param chainId - Optional chain the address is for: its configured registry, or its ENSIP-11 record on ENS
+     * @returns The address or error message
+     */
+    resolveName: update([text, Opt(nat64)], Result(text), async (name: string, chainId: any) => {
+        try {
+            const chain = fromOpt<bigint>(chainId);
+            const address = await resolveNameToAddress(name, chain !== undefined ? Number(chain) : undefined);
+            if (!address) {
+                return { Err: `Name does not resolve: ${name}` };
+            }
+            return { Ok: address };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Name resolution failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Get the verified primary name of an address for display
+     * @param address - The address
+     * @param chainId - Optional chain the address is on: its configured registry, or an ENS name whose record for the chain matches
+     * @returns The name, empty if none, or error message
+     */
+    lookupAddress: update([text, Opt(nat64)], Result(text), async (address: string, chainId: any) => {
+        try {
+            if (!ethers.isAddress(address)) {
+                return { Err: "Invalid address" };
+            }
+            const chain = fromOpt<bigint>(chainId);
+            return { Ok: await lookupAddressName(address, chain !== undefined ? Number(chain) : undefined) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Reverse lookup failed: ${message}` };
         }
     }),
 
@@ -480,41 +4614,195 @@ export default Canister({
         }
     }),
 
+    /**
+     * Compute the EIP-712 digest of typed data
+     * @param typedData - Domain, types and message as JSON
+     * @returns Digest, domain separator and struct hash, or error message
+     */
+    hashTypedData: query([TypedDataParams], Result(TypedDataDigest), (typedData: any) => {
+        try {
+            const { domain, types, message } = parseTypedData(typedData);
+            const encoder = ethers.TypedDataEncoder.from(types);
+
+            return {
+                Ok: {
+                    digest: ethers.TypedDataEncoder.hash(domain, types, message),
+                    domainSeparator: ethers.TypedDataEncoder.hashDomain(domain),
+                    structHash: encoder.hash(message),
+                    primaryType: encoder.primaryType
+                }
+            };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Typed data hashing failed: ${message}` };
+        }
+    }),
+
+    /**
+     * Verify an EIP-712 signature against an expected signer
+     * EOA signers are checked with ecrecover. Signers with code (ChatterPay smart
+     * accounts) are checked with ERC-1271 `isValidSignature` through the configured
+     * implementation ABI.
+     * @param params - Network, typed data, signature and expected signer
+     * @returns Whether the signature is valid and how it was checked, or error message
+     */
+    verifyTypedDataSignature: update([TypedDataSignatureParams], Result(SignatureVerificationResult), async (params: any) => {
+        try {
+            if (!ethers.isAddress(params.expectedSigner)) {
+                return { Err: "Invalid signer address" };
+            }
+
+            const { domain, types, message } = parseTypedData(params.typedData);
+            const digest = ethers.TypedDataEncoder.hash(domain, types, message);
+            const expectedSigner = ethers.getAddress(params.expectedSigner);
+
+            let recoveredSigner = "";
+            try {
+                recoveredSigner = ethers.recoverAddress(digest, params.signature);
+            } catch {
+                // Not an ECDSA signature; may still be valid for a contract signer
+            }
+            if (recoveredSigner === expectedSigner) {
+                return { Ok: { valid: true, method: "EOA", recoveredSigner } };
+            }
+
+            const chainId = Number(params.networkId);
+            const provider = getProvider(chainId);
+            if (await provider.getCode(expectedSigner) === "0x") {
+                return { Ok: { valid: false, method: "EOA", recoveredSigner } };
+            }
+
+            const implementation = resolveABIVersion("implementation", chainId) ? getContractInterface("implementation", chainId) : null;
+            const iface = implementation?.getFunction("isValidSignature") ? implementation : new ethers.Interface(ERC1271_ABI);
+            let valid = false;
+            try {
+                const result: string = await new ethers.Contract(expectedSigner, iface, provider)
+                    .getFunction("isValidSignature")
+                    .staticCall(digest, params.signature);
+                valid = result.toLowerCase() === ERC1271_MAGIC_VALUE;
+            } catch {
+                // Contracts may revert instead of returning a non-magic value
+            }
+
+            return { Ok: { valid, method: "ERC1271", recoveredSigner } };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { Err: `Signature verification failed: ${message}` };
+        }
+    }),
+
     /**
      * Estimate gas costs for a transaction
-     * @param params - Gas estimation parameters including to, from, amount, and chain ID
-     * @returns Gas estimation with limit, price, and total estimated cost
+     * ERC-20 transfers are estimated with `transfer` calldata. For a deployed ChatterPay
+     * wallet the bundler estimates the whole UserOperation wrapping the `execute` call, and
+     * gasLimit is the sum of its call, verification and pre-verification gas. Rollup L1 data
+     * fees (Scroll, Arbitrum) are priced for the signed-size transaction, or for the
+     * handleOps bundle carrying the operation, and included in the estimated cost. ERC-20 fees are quoted in the
+     * token when price feeds are registered for the token and the native coin.
+     * @param params - Gas estimation parameters including to, from, amount, chain ID and optional token
+     * @returns Gas estimation with limit, price, and total estimated cost in wei and token units
      */
     estimateGas: query([GasEstimateParams], Result(GasEstimateResult), async (params: any) => {
         try {
-            if (!ethers.isAddress(params.to as string)) {
-                return { Err: "Invalid recipient address" };
+            if (!ethers.isAddress(params.to as string) || !ethers.isAddress(params.from as string)) {
+                return { Err: "Invalid sender or recipient address" };
             }
 
-            const provider = getProvider(Number(params.chainId));
-            const value = ethers.parseEther(params.amount as string);
+            const chainId = Number(params.chainId);
+            const provider = getProvider(chainId);
+            const tokenAddress = fromOpt<string>(params.tokenAddress);
 
-            const tx = {
-                to: params.to as string,
-                from: params.from as string,
-                value,
-                chainId: Number(params.chainId),
-            };
+            let target = params.to as string;
+            let value = 0n;
+            let data = "0x";
+            let decimals = 18n;
+            if (tokenAddress) {
+                if (!ethers.isAddress(tokenAddress)) {
+                    return { Err: "Invalid token address" };
+                }
+                const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+                decimals = fromOpt<bigint>(params.decimals) ?? BigInt(await token.getFunction("decimals").staticCall());
+                target = tokenAddress;
+                data = token.interface.encodeFunctionData("transfer", [params.to, ethers.parseUnits(params.amount as string, decimals)]);
+            } else {
+                value = ethers.parseEther(params.amount as string);
+            }
 
-            const [gasLimit, feeData] = await Promise.all([
-                provider.estimateGas(tx),
-                provider.getFeeData()
-            ]);
+            const from = ethers.getAddress(params.from as string);
+            const feeData = await provider.getFeeData();
+            const gasPrice = feeData.gasPrice || 0n;
+
+            // ChatterPay wallets move funds through a UserOperation that a bundler wraps in handleOps
+            const contracts = chatterPayContracts[chainId];
+            let gasLimit: bigint;
+            let l1Call: { to: string; value: bigint; data: string; nonce: number };
+            if (contracts?.implementation && contracts.entryPoint && resolveABIVersion("implementation", chainId) && await provider.getCode(from) !== "0x") {
+                const entryPoint = new ethers.Contract(contracts.entryPoint, getContractInterface("entryPoint", chainId), provider);
+                const userOperation: UserOp = {
+                    sender: from,
+                    nonce: await entryPoint.getFunction("getNonce").staticCall(from, 0n),
+                    initCode: "0x",
+                    callData: getContractInterface("implementation", chainId).encodeFunctionData("execute", [target, value, data]),
+                    callGasLimit: 0n,
+                    verificationGasLimit: 0n,
+                    preVerificationGas: 0n,
+                    maxFeePerGas: feeData.maxFeePerGas ?? gasPrice,
+                    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? gasPrice,
+                    paymasterAndData: "0x",
+                    signature: DUMMY_SIGNATURE
+                };
+                const gas = await getBundler(chainId).send("eth_estimateUserOperationGas", [
+                    userOperationToRpc(userOperation),
+                    contracts.entryPoint
+                ]);
+                userOperation.callGasLimit = BigInt(gas.callGasLimit);
+                userOperation.verificationGasLimit = BigInt(gas.verificationGasLimit);
+                userOperation.preVerificationGas = BigInt(gas.preVerificationGas);
+
+                gasLimit = userOperation.callGasLimit + userOperation.verificationGasLimit + userOperation.preVerificationGas;
+                // The bundler's own nonce is unknown; it does not change the payload size much
+                l1Call = { to: contracts.entryPoint, value: 0n, data: encodeHandleOps([userOperation], from), nonce: 0 };
+            } else {
+                const [estimate, nonce] = await Promise.all([
+                    provider.estimateGas({ to: target, from, value, data, chainId }),
+                    provider.getTransactionCount(from, "pending")
+                ]);
+                gasLimit = estimate;
+                l1Call = { to: target, value, data, nonce };
+            }
+
+            const executionCost = gasLimit * gasPrice;
+
+            // L1 data is charged on the signed transaction, so size it with a placeholder signature
+            const sizedTx = ethers.Transaction.from({
+                ...l1Call,
+                chainId,
+                gasLimit,
+                ...(feeData.maxFeePerGas !== null && chainRegistry.get(chainId)?.eip1559 !== false
+                    ? { type: 2, maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+                    : { type: 0, gasPrice })
+            });
+            sizedTx.signature = ethers.Signature.from(DUMMY_SIGNATURE);
+            const l1 = await estimateL1DataFee(provider, chainId, sizedTx);
+            const estimatedCost = l1.includedInGasLimit ? executionCost : executionCost + l1.fee;
 
-            const estimatedCost = gasLimit * (feeData.gasPrice || 0n);
+            // Quote the fee in the token from the registered price feeds
+            let estimatedCostInToken = "";
+            if (tokenAddress) {
+                const costInToken = await quoteFeeInToken(provider, chainId, tokenAddress, decimals, estimatedCost);
+                estimatedCostInToken = costInToken === null ? "" : costInToken.toString();
+            }
 
             return {
                 Ok: {
                     gasLimit: gasLimit.toString(),
-                    gasPrice: (feeData.gasPrice || 0n).toString(),
+                    gasPrice: gasPrice.toString(),
                     maxFeePerGas: (feeData.maxFeePerGas || 0n).toString(),
                     maxPriorityFeePerGas: (feeData.maxPriorityFeePerGas || 0n).toString(),
-                    estimatedCost: estimatedCost.toString()
+                    estimatedCost: estimatedCost.toString(),
+                    executionCost: executionCost.toString(),
+                    l1DataFee: l1.fee.toString(),
+                    estimatedCostInToken
                 }
             };
         } catch (error: unknown) {
@@ -523,14 +4811,146 @@ export default Canister({
         }
     }),
 
+    /**
+     * Register a chain or update a registered one
+     * Providers and RPC pools are created on the fly, so no redeployment is needed.
+     * Every RPC URL must report the configured chain ID.
+     * Only the owner can perform this operation
+     * @param config - Chain registry entry
+     * @returns Success boolean or error message
+     */
+    registerChain: update([ChainConfig], Result(bool), async (config: any) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can register chains" };
+        }
+
+        const rpcUrls = config.rpcUrls as string[];
+        if (rpcUrls.length === 0 || rpcUrls.some(url => !/^https?:\/\//.test(url))) {
+            return { Err: "At least one valid RPC URL is required" };
+        }
+        if (!config.name || !config.nativeCurrency.symbol) {
+            return { Err: "Chain name and native currency symbol are required" };
+        }
+
+        // Pooled providers use a static network, so the chain ID is checked here once
+        const urls = [...new Set(rpcUrls)];
+        const reported = await Promise.all(urls.map(async url => {
+            const probe = createRpcEndpoint(Number(config.chainId), url).provider;
+            try {
+                return BigInt(await probe.send("eth_chainId", []));
+            } catch (error: unknown) {
+                const message = error instanceof Error ? error.message : String(error);
+                return `unreachable (${message})`;
+            } finally {
+                probe.destroy();
+            }
+        }));
+        const mismatch = reported.findIndex(chainId => chainId !== BigInt(config.chainId));
+        if (mismatch !== -1) {
+            const found = reported[mismatch];
+            return { Err: `RPC ${urls[mismatch]} ${typeof found === "bigint" ? `reports chain ID ${found}` : `is ${found}`}, expected ${config.chainId}` };
+        }
+
+        attachChain(Number(config.chainId), {
+            name: config.name,
+            nativeCurrency: {
+                name: config.nativeCurrency.name,
+                symbol: config.nativeCurrency.symbol,
+                decimals: Number(config.nativeCurrency.decimals)
+            },
+            explorerUrl: config.explorerUrl,
+            eip1559: config.eip1559,
+            confirmations: Number(config.confirmations)
+        }, urls);
+        return { Ok: true };
+    }),
+
+    /**
+     * Remove a chain with its providers, RPC pool, bundler, contracts and per-chain state
+     * Only the owner can perform this operation
+     * @param chainId - The chain ID
+     * @returns Success boolean or error message
+     */
+    removeChain: update([nat64], Result(bool), (chainId: bigint) => {
+        if (OWNER === null) {
+            return { Err: "Owner not initialized" };
+        }
+        if (ic.caller().toString() !== OWNER) {
+            return { Err: "Only owner can remove chains" };
+        }
+
+        const id = Number(chainId);
+        if (!chainRegistry.has(id)) {
+            return { Err: "Unsupported chain ID" };
+        }
+        if (id === DEFAULT_CHAIN_ID) {
+            return { Err: "Cannot remove the default chain" };
+        }
+
+        providers.get(id)?.destroy();
+        rpcEndpoints.get(id)?.forEach(endpoint => endpoint.provider.destroy());
+        providers.delete(id);
+        rpcEndpoints.delete(id);
+        rpcQuorums.delete(id);
+        chainRegistry.delete(id);
+        delete chatterPayContracts[id];
+        delete accountProxyCode[id];
+        delete priceFeeds[id];
+        delete bundlerUrls[id];
+        delete nameRegistries[id];
+        delete abiPins[id];
+        delete sponsorshipPolicy.networks[id];
+        multicallDeployed.delete(id);
+        traceCallSupported.delete(id);
+        indexedBlockHashes.delete(id);
+        for (const key of nonceTrackers.keys()) {
+            if (key.startsWith(`${id}_`)) {
+                nonceTrackers.delete(key);
+            }
+        }
+        return { Ok: true };
+    }),
+
+    /**
+     * Get the registry entry of a chain
+     * @param chainId - The chain ID
+     * @returns Chain configuration or error if not registered
+     */
+    getChainConfig: query([nat64], Result(ChainConfig), (chainId: bigint) => {
+        const id = Number(chainId);
+        const chain = chainRegistry.get(id);
+        if (!chain) {
+            return { Err: "Unsupported chain ID" };
+        }
+
+        return {
+            Ok: {
+                chainId: BigInt(id),
+                name: chain.name,
+                rpcUrls: (rpcEndpoints.get(id) || []).map(endpoint => endpoint.url),
+                nativeCurrency: {
+                    name: chain.nativeCurrency.name,
+                    symbol: chain.nativeCurrency.symbol,
+                    decimals: BigInt(chain.nativeCurrency.decimals)
+                },
+                explorerUrl: chain.explorerUrl,
+                eip1559: chain.eip1559,
+                confirmations: BigInt(chain.confirmations)
+            }
+        };
+    }),
+
     /**
      * Get information about all supported blockchain networks
      * @returns Array of chain information including ID, name, and support status
      */
     getSupportedChains: query([], Vec(ChainInfo), () => {
-        return Object.entries(CHAIN_CONFIGS).map(([chainId, config]) => ({
+        return Array.from(chainRegistry.entries()).map(([chainId, chain]) => ({
             chainId: BigInt(chainId),
-            name: config.name,
+            name: chain.name,
             supported: true
         }));
     }),
@@ -542,16 +4962,16 @@ export default Canister({
      */
     getChainInfo: query([nat64], Result(ChainInfo), (chainId: bigint) => {
         const id = Number(chainId);
-        const config = CHAIN_CONFIGS[id as keyof typeof CHAIN_CONFIGS];
+        const chain = chainRegistry.get(id);
         
-        if (!config) {
+        if (!chain) {
             return { Err: "Unsupported chain ID" };
         }
 
         return {
             Ok: {
                 chainId: BigInt(id),
-                name: config.name,
+                name: chain.name,
                 supported: true
             }
         };
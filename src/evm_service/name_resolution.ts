@@ -0,0 +1,82 @@
+/**
+ * @fileoverview ENS address records per chain and reverse name records
+ * @author ChatterPay Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+
+/** SLIP-44 coin type of the mainnet ETH address record */
+export const ETH_COIN_TYPE = 60n;
+
+/** ENSIP-11 flag marking an EVM chain ID as a coin type */
+const EVM_COIN_TYPE_FLAG = 0x80000000n;
+
+const NAME_REGISTRY_ABI = ["function resolver(bytes32 node) view returns (address)"];
+
+const NAME_RESOLVER_ABI = ["function name(bytes32 node) view returns (string)"];
+
+/**
+ * Get the ENSIP-11 coin type of the address record used on a chain
+ * @param chainId - The EVM chain ID
+ * @returns 60 for mainnet, 0x80000000 | chainId otherwise
+ * @throws Error if the chain ID does not fit in a coin type
+ */
+export function getCoinType(chainId: number): bigint {
+    if (!Number.isInteger(chainId) || chainId <= 0 || BigInt(chainId) >= EVM_COIN_TYPE_FLAG) {
+        throw new Error(`Chain ID ${chainId} has no ENSIP-11 coin type`);
+    }
+    return chainId === 1 ? ETH_COIN_TYPE : EVM_COIN_TYPE_FLAG | BigInt(chainId);
+}
+
+/**
+ * Get the resolver of a name from an ENS-compatible registry
+ * @param provider - Provider of the registry's chain
+ * @param registry - Registry address
+ * @param name - The normalized name
+ * @returns The resolver, or null if none is set
+ */
+export async function getRegistryResolver(provider: ethers.AbstractProvider, registry: string, name: string): Promise<ethers.EnsResolver | null> {
+    const registryContract = new ethers.Contract(registry, NAME_REGISTRY_ABI, provider);
+    const resolver: string = await registryContract.getFunction("resolver").staticCall(ethers.namehash(name));
+    return resolver === ethers.ZeroAddress ? null : new ethers.EnsResolver(provider, resolver, name);
+}
+
+/**
+ * Get the reverse node name holding an address's primary name
+ * @param address - The address
+ * @returns The name `<address>.addr.reverse`, for getRegistryResolver
+ */
+export function getReverseName(address: string): string {
+    return `${ethers.getAddress(address).slice(2).toLowerCase()}.addr.reverse`;
+}
+
+/**
+ * Read the name record of a reverse node
+ * The name is only claimed by the address; callers must resolve it back to verify it.
+ * @param resolver - Resolver of the reverse node, or null if it has none
+ * @returns The name, or an empty string if the record is not set
+ */
+export async function resolveNameRecord(resolver: ethers.EnsResolver | null): Promise<string> {
+    if (!resolver) {
+        return "";
+    }
+    const contract = new ethers.Contract(resolver.address, NAME_RESOLVER_ABI, resolver.provider);
+    return contract.getFunction("name").staticCall(ethers.namehash(resolver.name));
+}
+
+/**
+ * Read the address record of a name for one coin type
+ * There is no fallback to the ETH record: an account on mainnet is not
+ * necessarily controlled by the same owner on other chains.
+ * @param resolver - The name's resolver, or null if it has none
+ * @param coinType - Coin type from getCoinType
+ * @returns The checksummed address, or null if the record is not set
+ */
+export async function resolveAddressRecord(resolver: ethers.EnsResolver | null, coinType: bigint): Promise<string | null> {
+    if (!resolver) {
+        return null;
+    }
+    const address = await resolver.getAddress(coinType);
+    return address === null || address === ethers.ZeroAddress ? null : ethers.getAddress(address);
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Per-chain RPC endpoint pool with health scoring, failover and quorum reads
+ * @author ChatterPay Team
+ * @version 1.0.0
+ */
+
+import { ethers, JsonRpcProvider } from 'ethers';
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from 'ethers';
+
+/** Health statistics of a single RPC endpoint */
+export type RpcEndpoint = {
+    url: string;
+    provider: JsonRpcProvider;
+    latencyMs: number; // Exponentially weighted average
+    errorRate: number; // Exponentially weighted, between 0 and 1
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    circuitOpenUntil: number;
+};
+
+/** Smoothing factor for endpoint latency and error rate averages */
+const RPC_SCORE_SMOOTHING = 0.2;
+
+/** Latency-equivalent penalty (ms) of an endpoint that always fails */
+const RPC_ERROR_PENALTY_MS = 5000;
+
+/** Consecutive failures that open an endpoint's circuit */
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+
+/** Time an open circuit keeps an endpoint out of rotation */
+const CIRCUIT_COOLDOWN_MS = 30 * 1000;
+
+/** Per-request timeout for a single endpoint */
+const RPC_TIMEOUT_MS = 15 * 1000;
+
+/** Reads that require agreement between endpoints when a quorum is configured */
+const QUORUM_METHODS = ["eth_getTransactionReceipt"];
+
+/** JSON-RPC error codes that blame the endpoint rather than the request */
+const ENDPOINT_ERROR_CODES = [-32005, -32603, 429];
+
+/** Internal error code some nodes also use for reverted calls */
+const INTERNAL_ERROR_CODE = -32603;
+
+/** RPC endpoints by chain ID */
+export const rpcEndpoints = new Map<number, RpcEndpoint[]>();
+
+/** Number of agreeing endpoints required for QUORUM_METHODS, by chain ID (default 1) */
+export const rpcQuorums = new Map<number, number>();
+
+/**
+ * Create a fresh RPC endpoint entry
+ * @param chainId - The chain the endpoint serves
+ * @param url - The endpoint URL
+ * @returns Endpoint with empty statistics
+ */
+export function createRpcEndpoint(chainId: number, url: string): RpcEndpoint {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = RPC_TIMEOUT_MS;
+    return {
+        url,
+        provider: new JsonRpcProvider(request, chainId, { staticNetwork: true }),
+        latencyMs: 0,
+        errorRate: 0,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        circuitOpenUntil: 0
+    };
+}
+
+/**
+ * Score an endpoint; lower is better
+ */
+export function getEndpointScore(endpoint: RpcEndpoint): number {
+    return endpoint.latencyMs + endpoint.errorRate * RPC_ERROR_PENALTY_MS;
+}
+
+/**
+ * Order a chain's endpoints for the next request
+ * Endpoints with a closed (or cooled down) circuit come first by score. If every
+ * circuit is open, all endpoints are returned so requests still have a chance.
+ * @param chainId - The chain ID
+ * @returns Endpoints in the order they should be tried
+ */
+function rankEndpoints(chainId: number): RpcEndpoint[] {
+    const endpoints = rpcEndpoints.get(chainId) || [];
+    const now = Date.now();
+    const available = endpoints
+        .filter(endpoint => endpoint.circuitOpenUntil <= now)
+        .sort((a, b) => getEndpointScore(a) - getEndpointScore(b));
+    if (available.length > 0) {
+        return available;
+    }
+    return [...endpoints].sort((a, b) => a.circuitOpenUntil - b.circuitOpenUntil);
+}
+
+/**
+ * Update an endpoint's statistics after a request
+ * @param endpoint - The endpoint used
+ * @param success - Whether the endpoint answered properly
+ * @param latencyMs - Request duration
+ */
+function recordEndpointResult(endpoint: RpcEndpoint, success: boolean, latencyMs: number) {
+    const weight = endpoint.successes + endpoint.failures === 0 ? 1 : RPC_SCORE_SMOOTHING;
+    endpoint.latencyMs += (latencyMs - endpoint.latencyMs) * weight;
+    endpoint.errorRate += ((success ? 0 : 1) - endpoint.errorRate) * weight;
+
+    if (success) {
+        endpoint.successes++;
+        endpoint.consecutiveFailures = 0;
+        endpoint.circuitOpenUntil = 0;
+        return;
+    }
+
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    if (endpoint.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+        endpoint.circuitOpenUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    }
+}
+
+/**
+ * Get the error of a JSON-RPC response
+ * JsonRpcProvider types its responses as results, but failed calls carry an error instead
+ * @param response - A JSON-RPC response
+ * @returns The error, or undefined for a successful response
+ */
+function getResponseError(response: JsonRpcResult | JsonRpcError): JsonRpcError["error"] | undefined {
+    return "error" in response ? response.error : undefined;
+}
+
+/**
+ * Check whether a JSON-RPC error blames the endpoint rather than the request
+ * Reverts reported as internal errors are the request's fault and must not fail over.
+ * @param error - The error of a JSON-RPC response
+ * @returns True if another endpoint may answer the request
+ */
+function isEndpointError(error: JsonRpcError["error"]): boolean {
+    if (!ENDPOINT_ERROR_CODES.includes(error.code)) {
+        return false;
+    }
+    return error.code !== INTERNAL_ERROR_CODE || !String(error.message).includes("execution reverted");
+}
+
+/**
+ * Send a payload to one endpoint, treating endpoint-level JSON-RPC errors as failures
+ */
+async function sendToEndpoint(endpoint: RpcEndpoint, payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const started = Date.now();
+    try {
+        const results = await endpoint.provider._send(payload);
+        const endpointError = results.map(getResponseError).find(error => error && isEndpointError(error));
+        if (endpointError) {
+            throw new Error(`${endpoint.url} returned ${JSON.stringify(endpointError)}`);
+        }
+        recordEndpointResult(endpoint, true, Date.now() - started);
+        return results;
+    } catch (error) {
+        recordEndpointResult(endpoint, false, Date.now() - started);
+        throw error;
+    }
+}
+
+/**
+ * Send a payload to the best endpoint of a chain, failing over to the next ones
+ * @param chainId - The chain ID
+ * @param payload - JSON-RPC request or batch
+ * @returns The JSON-RPC responses
+ * @throws Error if every endpoint fails
+ */
+export async function sendWithFailover(chainId: number, payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    let lastError: unknown = new Error(`No RPC endpoints configured for chain ID: ${chainId}`);
+    for (const endpoint of rankEndpoints(chainId)) {
+        try {
+            return await sendToEndpoint(endpoint, payload);
+        } catch (error) {
+            lastError = error;
+        }
+    }
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new Error(`All RPC endpoints failed for chain ID ${chainId}: ${message}`);
+}
+
+/**
+ * Get the part of a response that endpoints must agree on
+ * Receipts are compared by the fields that identify their inclusion and outcome, since
+ * nodes differ in the optional fields they add
+ * @param method - The JSON-RPC method
+ * @param response - The response of one endpoint
+ * @returns A key that is equal for agreeing responses
+ */
+function getQuorumKey(method: string, response: JsonRpcResult | JsonRpcError): string {
+    const error = getResponseError(response);
+    if (error) {
+        return JSON.stringify({ error: { code: error.code, message: error.message } });
+    }
+
+    const result = "result" in response ? response.result : null;
+    if (method === "eth_getTransactionReceipt" && result) {
+        return JSON.stringify({ blockHash: result.blockHash, status: result.status, transactionHash: result.transactionHash });
+    }
+    return JSON.stringify({ result: result ?? null });
+}
+
+/**
+ * Send a read to several endpoints and return the answer at least `quorum` of them agree on
+ * @param chainId - The chain ID
+ * @param payload - JSON-RPC request
+ * @param quorum - Number of identical answers required
+ * @returns The agreed JSON-RPC response
+ * @throws Error if not enough endpoints agree
+ */
+async function sendWithQuorum(chainId: number, payload: JsonRpcPayload, quorum: number): Promise<Array<JsonRpcResult>> {
+    const endpoints = rankEndpoints(chainId);
+    const votes = new Map<string, { count: number; results: Array<JsonRpcResult> }>();
+
+    // Ask `quorum` endpoints at once, then one more at a time until they agree
+    let next = 0;
+    while (next < endpoints.length) {
+        const batch = endpoints.slice(next, next === 0 ? quorum : next + 1);
+        next += batch.length;
+
+        const settled = await Promise.allSettled(batch.map(endpoint => sendToEndpoint(endpoint, payload)));
+        for (const outcome of settled) {
+            if (outcome.status !== "fulfilled") {
+                continue;
+            }
+            const key = outcome.value.map(response => getQuorumKey(payload.method, response)).join(",");
+            const vote = votes.get(key) || { count: 0, results: outcome.value };
+            vote.count++;
+            votes.set(key, vote);
+            if (vote.count >= quorum) {
+                return vote.results;
+            }
+        }
+    }
+    throw new Error(`RPC quorum of ${quorum} not reached for ${payload.method} on chain ID ${chainId}`);
+}
+
+/**
+ * JsonRpcProvider backed by a chain's endpoint pool
+ * All ethers calls go through failover, and QUORUM_METHODS through quorum reads
+ */
+export class PooledRpcProvider extends JsonRpcProvider {
+    readonly poolChainId: number;
+
+    constructor(chainId: number) {
+        super(undefined, chainId, { staticNetwork: true });
+        this.poolChainId = chainId;
+    }
+
+    async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+        const quorum = rpcQuorums.get(this.poolChainId) || 1;
+        const requests = Array.isArray(payload) ? payload : [payload];
+        const quorumRequests = quorum > 1 ? requests.filter(request => QUORUM_METHODS.includes(request.method)) : [];
+        if (quorumRequests.length === 0) {
+            return sendWithFailover(this.poolChainId, payload);
+        }
+
+        // ethers batches concurrent calls, so quorum applies to each entry of a batch
+        const others = requests.filter(request => !quorumRequests.includes(request));
+        const responses = await Promise.all([
+            ...quorumRequests.map(request => sendWithQuorum(this.poolChainId, request, quorum)),
+            ...(others.length > 0 ? [sendWithFailover(this.poolChainId, others)] : [])
+        ]);
+        return responses.flat();
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview ERC-4337 (EntryPoint v0.6) UserOperation hashing and serialization
+ * @author ChatterPay Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+
+/** ERC-4337 v0.6 UserOperation with numeric fields as bigint */
+export type UserOp = {
+    sender: string;
+    nonce: bigint;
+    initCode: string;
+    callData: string;
+    callGasLimit: bigint;
+    verificationGasLimit: bigint;
+    preVerificationGas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+    paymasterAndData: string;
+    signature: string;
+};
+
+/**
+ * Compute the EntryPoint v0.6 hash the account owner must sign
+ * @param userOperation - The UserOperation (signature is ignored)
+ * @param entryPoint - EntryPoint contract address
+ * @param chainId - Chain ID the operation is bound to
+ * @returns The userOpHash
+ */
+export function getUserOperationHash(userOperation: UserOp, entryPoint: string, chainId: number): string {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const packed = coder.encode(
+        ["address", "uint256", "bytes32", "bytes32", "uint256", "uint256", "uint256", "uint256", "uint256", "bytes32"],
+        [
+            userOperation.sender,
+            userOperation.nonce,
+            ethers.keccak256(userOperation.initCode),
+            ethers.keccak256(userOperation.callData),
+            userOperation.callGasLimit,
+            userOperation.verificationGasLimit,
+            userOperation.preVerificationGas,
+            userOperation.maxFeePerGas,
+            userOperation.maxPriorityFeePerGas,
+            ethers.keccak256(userOperation.paymasterAndData)
+        ]
+    );
+    return ethers.keccak256(coder.encode(["bytes32", "address", "uint256"], [ethers.keccak256(packed), entryPoint, chainId]));
+}
+
+/** Length of an ECDSA signature (r, s, v) */
+const SIGNATURE_LENGTH = 65;
+
+/**
+ * Well-formed ECDSA signature used while the real one is unknown,
+ * so bundlers can simulate validation during gas estimation
+ */
+export const DUMMY_SIGNATURE = "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+/**
+ * Compute the hash a VerifyingPaymaster (EntryPoint v0.6) expects its signer to approve
+ * Covers every UserOperation field except paymasterAndData and signature, the chain,
+ * the paymaster and the validity window. The signer signs its EIP-191 message hash.
+ * @param userOperation - The UserOperation with final gas fields
+ * @param paymaster - Paymaster contract address
+ * @param chainId - Chain ID the operation is bound to
+ * @param validUntil - Last valid timestamp in seconds, 0 for no expiry
+ * @param validAfter - First valid timestamp in seconds
+ * @returns The paymaster hash
+ */
+export function getPaymasterHash(userOperation: UserOp, paymaster: string, chainId: number, validUntil: number, validAfter: number): string {
+    return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "uint256", "bytes32", "bytes32", "uint256", "uint256", "uint256", "uint256", "uint256", "uint256", "address", "uint48", "uint48"],
+        [
+            userOperation.sender,
+            userOperation.nonce,
+            ethers.keccak256(userOperation.initCode),
+            ethers.keccak256(userOperation.callData),
+            userOperation.callGasLimit,
+            userOperation.verificationGasLimit,
+            userOperation.preVerificationGas,
+            userOperation.maxFeePerGas,
+            userOperation.maxPriorityFeePerGas,
+            chainId,
+            paymaster,
+            validUntil,
+            validAfter
+        ]
+    ));
+}
+
+/**
+ * Build VerifyingPaymaster paymasterAndData: paymaster, abi.encode(validUntil, validAfter), signature
+ * @param paymaster - Paymaster contract address
+ * @param validUntil - Last valid timestamp in seconds
+ * @param validAfter - First valid timestamp in seconds
+ * @param signature - 65-byte approval signature; DUMMY_SIGNATURE while estimating gas
+ * @returns The paymasterAndData field
+ */
+export function encodePaymasterAndData(paymaster: string, validUntil: number, validAfter: number, signature: string = DUMMY_SIGNATURE): string {
+    if (ethers.dataLength(signature) !== SIGNATURE_LENGTH) {
+        throw new Error(`Paymaster signature must be ${SIGNATURE_LENGTH} bytes`);
+    }
+    return ethers.concat([
+        ethers.getAddress(paymaster),
+        ethers.AbiCoder.defaultAbiCoder().encode(["uint48", "uint48"], [validUntil, validAfter]),
+        signature
+    ]);
+}
+
+/** EntryPoint v0.6 bundle entry point, used to size the bundle transaction */
+const HANDLE_OPS_INTERFACE = new ethers.Interface([
+    "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)"
+]);
+
+/**
+ * Encode the EntryPoint handleOps call a bundler sends for a set of UserOperations
+ * @param userOperations - The signed (or placeholder-signed) operations
+ * @param beneficiary - Address receiving the gas refund
+ * @returns The handleOps calldata
+ */
+export function encodeHandleOps(userOperations: UserOp[], beneficiary: string): string {
+    return HANDLE_OPS_INTERFACE.encodeFunctionData("handleOps", [
+        userOperations.map(userOperation => [
+            userOperation.sender,
+            userOperation.nonce,
+            userOperation.initCode,
+            userOperation.callData,
+            userOperation.callGasLimit,
+            userOperation.verificationGasLimit,
+            userOperation.preVerificationGas,
+            userOperation.maxFeePerGas,
+            userOperation.maxPriorityFeePerGas,
+            userOperation.paymasterAndData,
+            userOperation.signature
+        ]),
+        beneficiary
+    ]);
+}
+
+/**
+ * Serialize a UserOperation for bundler RPC methods (hex quantities)
+ */
+export function userOperationToRpc(userOperation: UserOp): { [field: string]: string } {
+    return {
+        sender: userOperation.sender,
+        nonce: ethers.toQuantity(userOperation.nonce),
+        initCode: userOperation.initCode,
+        callData: userOperation.callData,
+        callGasLimit: ethers.toQuantity(userOperation.callGasLimit),
+        verificationGasLimit: ethers.toQuantity(userOperation.verificationGasLimit),
+        preVerificationGas: ethers.toQuantity(userOperation.preVerificationGas),
+        maxFeePerGas: ethers.toQuantity(userOperation.maxFeePerGas),
+        maxPriorityFeePerGas: ethers.toQuantity(userOperation.maxPriorityFeePerGas),
+        paymasterAndData: userOperation.paymasterAndData,
+        signature: userOperation.signature
+    };
+}
+
+/**
+ * Serialize a UserOperation for the Candid interface (decimal strings)
+ */
+export function userOperationToCandid(userOperation: UserOp) {
+    return {
+        sender: userOperation.sender,
+        nonce: userOperation.nonce.toString(),
+        initCode: userOperation.initCode,
+        callData: userOperation.callData,
+        callGasLimit: userOperation.callGasLimit.toString(),
+        verificationGasLimit: userOperation.verificationGasLimit.toString(),
+        preVerificationGas: userOperation.preVerificationGas.toString(),
+        maxFeePerGas: userOperation.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: userOperation.maxPriorityFeePerGas.toString(),
+        paymasterAndData: userOperation.paymasterAndData,
+        signature: userOperation.signature
+    };
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Counterfactual ChatterPay smart account addresses
+ * @author ChatterPay Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * How a factory derives the CREATE2 salt.
+ * `salt` is the ERC-4337 SimpleAccountFactory convention (the account salt as bytes32),
+ * `owner` is the ChatterPay factory, which salts by keccak256(abi.encodePacked(owner)).
+ */
+export type SaltScheme = "salt" | "owner";
+
+/** Proxy the factory deploys for each account, and how it is initialized */
+export type AccountProxyCode = {
+    creationCode: string; // Proxy creation bytecode, without constructor arguments
+    initializer: string; // Implementation initializer, e.g. "function initialize(address owner)"
+    initializerArgs: unknown[]; // Initializer arguments after the owner
+};
+
+/**
+ * Get the CREATE2 salt a factory uses for an account
+ * @param scheme - The factory's salt scheme
+ * @param owner - The account owner address
+ * @param salt - The account salt; must be 0 for owner-salted factories
+ * @returns The 32-byte salt
+ * @throws Error if an owner-salted factory is given a salt
+ */
+export function getAccountSalt(scheme: SaltScheme, owner: string, salt: bigint): string {
+    if (scheme === "salt") {
+        return ethers.toBeHex(salt, 32);
+    }
+    if (salt !== 0n) {
+        // Owner-salted factories deploy a single account per owner
+        throw new Error("Factory derives the salt from the owner; salt must be 0");
+    }
+    return ethers.solidityPackedKeccak256(["address"], [owner]);
+}
+
+/**
+ * Build the init code of an account proxy: ERC-1967 proxy creation code followed by
+ * the abi-encoded (implementation, initializer calldata) constructor arguments
+ * @param proxy - Proxy creation code and initializer
+ * @param implementation - The account implementation address
+ * @param owner - The account owner address
+ * @returns The init code
+ */
+export function buildAccountInitCode(proxy: AccountProxyCode, implementation: string, owner: string): string {
+    const initializer = ethers.FunctionFragment.from(proxy.initializer);
+    if (initializer.inputs.length !== proxy.initializerArgs.length + 1 || initializer.inputs[0].type !== "address") {
+        throw new Error(`Initializer ${initializer.format()} must take the owner address followed by ${proxy.initializerArgs.length} arguments`);
+    }
+
+    const initData = new ethers.Interface([initializer]).encodeFunctionData(initializer, [owner, ...proxy.initializerArgs]);
+    const constructorArgs = ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes"], [implementation, initData]);
+    return ethers.concat([proxy.creationCode, constructorArgs]);
+}
+
+/**
+ * Compute the CREATE2 counterfactual address of a smart account
+ * @param factory - The factory address (the CREATE2 deployer)
+ * @param proxy - Proxy creation code and initializer
+ * @param implementation - The account implementation address
+ * @param owner - The account owner address
+ * @param salt - The account salt
+ * @param scheme - The factory's salt scheme
+ * @returns The checksummed account address
+ */
+export function computeWalletAddress(
+    factory: string,
+    proxy: AccountProxyCode,
+    implementation: string,
+    owner: string,
+    salt: bigint,
+    scheme: SaltScheme
+): string {
+    return ethers.getCreate2Address(
+        factory,
+        getAccountSalt(scheme, owner, salt),
+        ethers.keccak256(buildAccountInitCode(proxy, implementation, owner))
+    );
+}
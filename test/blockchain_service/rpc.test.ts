@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { RpcError, sendRPCBatch, toHexResult, toRpcError } from '../../src/blockchain_service/rpc';
+import type { RpcCall, RpcTransport } from '../../src/blockchain_service/rpc';
+
+const RPC_URL = "https://rpc.test";
+
+type Request = { jsonrpc: string; id: number; method: string; params: unknown[] };
+
+/** Transport answering each POSTed batch with a handler, recording requests and waits */
+function stubTransport(handler: (batch: Request[], attempt: number) => Response) {
+    const batches: Request[][] = [];
+    const waits: number[] = [];
+    const prepared: RpcCall[][] = [];
+    const transport: RpcTransport = {
+        fetch: async (url, init) => {
+            assert.equal(url, RPC_URL);
+            assert.equal(prepared.length, batches.length + 1, "prepareRequest runs before every request");
+            const batch: Request[] = JSON.parse(String(init.body));
+            assert.deepEqual(batch.map(request => request.method), prepared[batches.length].map(call => call.method));
+            batches.push(batch);
+            return handler(batch, batches.length - 1);
+        },
+        prepareRequest: calls => {
+            prepared.push(calls);
+        },
+        wait: async rounds => {
+            waits.push(rounds);
+        }
+    };
+    return { transport, batches, waits };
+}
+
+/** JSON response with the given body and HTTP status */
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const blockNumber: RpcCall = { method: "eth_blockNumber", params: [] };
+
+describe("sendRPCBatch", () => {
+    it("matches responses to calls by id", async () => {
+        const { transport, batches } = stubTransport(batch => json(batch.map(request => ({ jsonrpc: "2.0", id: request.id, result: request.method })).reverse()));
+        const outcomes = await sendRPCBatch(transport, RPC_URL, [blockNumber, { method: "eth_chainId", params: [] }]);
+
+        assert.deepEqual(outcomes.map(outcome => outcome.result), ["eth_blockNumber", "eth_chainId"]);
+        assert.equal(batches.length, 1);
+        assert.deepEqual(batches[0].map(request => request.id), [1, 2]);
+    });
+
+    it("splits large batches", async () => {
+        const { transport, batches } = stubTransport(batch => json(batch.map(request => ({ jsonrpc: "2.0", id: request.id, result: request.params[0] }))));
+        const calls = Array.from({ length: 120 }, (_, index) => ({ method: "eth_getBalance", params: [index] }));
+        const outcomes = await sendRPCBatch(transport, RPC_URL, calls);
+
+        assert.deepEqual(batches.map(batch => batch.length), [50, 50, 20]);
+        assert.deepEqual(outcomes.map(outcome => outcome.result), calls.map((_, index) => index));
+    });
+
+    it("retries only rate-limited calls with doubling backoff", async () => {
+        const { transport, batches, waits } = stubTransport((batch, attempt) => json(batch.map(request =>
+            request.method === "eth_call" && attempt < 2
+                ? { jsonrpc: "2.0", id: request.id, error: { code: -32005, message: "rate limit exceeded" } }
+                : { jsonrpc: "2.0", id: request.id, result: "0x1" })));
+        const outcomes = await sendRPCBatch(transport, RPC_URL, [blockNumber, { method: "eth_call", params: [] }]);
+
+        assert.deepEqual(outcomes.map(outcome => outcome.result), ["0x1", "0x1"]);
+        assert.deepEqual(batches.map(batch => batch.map(request => request.method)), [["eth_blockNumber", "eth_call"], ["eth_call"], ["eth_call"]]);
+        assert.deepEqual(waits, [1, 2]);
+    });
+
+    it("gives up after the last retry", async () => {
+        const { transport, batches, waits } = stubTransport(() => json({}, 503));
+        const [outcome] = await sendRPCBatch(transport, RPC_URL, [blockNumber]);
+
+        assert.ok(outcome.error instanceof RpcError);
+        assert.equal(outcome.error.kind, "TRANSPORT");
+        assert.equal(outcome.error.code, 503);
+        assert.equal(batches.length, 4);
+        assert.deepEqual(waits, [1, 2, 4]);
+    });
+
+    it("treats HTTP 429 as a rate limit", async () => {
+        const { transport } = stubTransport((batch, attempt) => attempt === 0
+            ? json({}, 429)
+            : json(batch.map(request => ({ jsonrpc: "2.0", id: request.id, result: "0x2a" }))));
+        const [outcome] = await sendRPCBatch(transport, RPC_URL, [blockNumber]);
+        assert.equal(outcome.result, "0x2a");
+    });
+
+    it("retries failed requests", async () => {
+        const { transport, waits } = stubTransport((batch, attempt) => {
+            if (attempt === 0) {
+                throw new TypeError("fetch failed");
+            }
+            return json(batch.map(request => ({ jsonrpc: "2.0", id: request.id, result: "0x2a" })));
+        });
+        const [outcome] = await sendRPCBatch(transport, RPC_URL, [blockNumber]);
+        assert.equal(outcome.result, "0x2a");
+        assert.deepEqual(waits, [1]);
+    });
+
+    it("returns reverts without retrying", async () => {
+        const { transport, batches } = stubTransport(batch => json(batch.map(request =>
+            ({ jsonrpc: "2.0", id: request.id, error: { code: 3, message: "execution reverted", data: "0x08c379a0" } }))));
+        const [outcome] = await sendRPCBatch(transport, RPC_URL, [{ method: "eth_call", params: [] }]);
+
+        assert.equal(outcome.error?.kind, "EXECUTION_REVERTED");
+        assert.equal(outcome.error?.data, "0x08c379a0");
+        assert.equal(batches.length, 1);
+    });
+
+    it("fails every call when the batch is answered with one error", async () => {
+        const { transport } = stubTransport(() => json({ jsonrpc: "2.0", id: null, error: { code: -32600, message: "batch not supported" } }));
+        const outcomes = await sendRPCBatch(transport, RPC_URL, [blockNumber, blockNumber]);
+        assert.deepEqual(outcomes.map(outcome => outcome.error?.kind), ["RPC", "RPC"]);
+    });
+
+    it("reports calls the node did not answer", async () => {
+        const { transport } = stubTransport((batch, attempt) => json(batch
+            .filter(request => attempt > 0 || request.id === 1)
+            .map(request => ({ jsonrpc: "2.0", id: request.id, result: "0x1" }))));
+        const outcomes = await sendRPCBatch(transport, RPC_URL, [blockNumber, blockNumber]);
+        assert.deepEqual(outcomes.map(outcome => outcome.result), ["0x1", "0x1"]);
+    });
+});
+
+describe("toRpcError", () => {
+    it("types errors by code and message", () => {
+        assert.equal(toRpcError({ code: 429, message: "slow down" }).kind, "RATE_LIMIT");
+        assert.equal(toRpcError({ code: -32000, message: "Too Many Requests" }).kind, "RATE_LIMIT");
+        assert.equal(toRpcError({ code: -32000, message: "execution reverted: paused" }).kind, "EXECUTION_REVERTED");
+        assert.equal(toRpcError({ code: -32602, message: "invalid argument" }).kind, "INVALID_PARAMS");
+        assert.equal(toRpcError({ code: -32601, message: "method not found" }).kind, "METHOD_NOT_FOUND");
+        assert.equal(toRpcError({ code: -32000, message: "nonce too low" }).kind, "RPC");
+    });
+});
+
+describe("toHexResult", () => {
+    it("accepts hex data and quantities", () => {
+        assert.equal(toHexResult("0x1a", "eth_blockNumber"), "0x1a");
+        assert.equal(toHexResult("0x", "eth_call"), "0x");
+    });
+
+    it("rejects other results", () => {
+        for (const result of [null, 26, "26", { result: "0x1a" }]) {
+            assert.throws(() => toHexResult(result, "eth_blockNumber"), (error: unknown) =>
+                error instanceof RpcError && error.kind === "RPC" && /eth_blockNumber returned a malformed result/.test(error.message));
+        }
+    });
+});
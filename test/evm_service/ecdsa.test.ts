@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { ethers } from 'ethers';
+import { getDerivationPath, toEthereumSignature } from '../../src/evm_service/ecdsa';
+
+const SECP256K1_ORDER = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+const signingKey = new ethers.SigningKey("0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318");
+const address = ethers.computeAddress(signingKey.publicKey);
+
+/**
+ * Sign like sign_with_ecdsa: 64 bytes of r and s, no recovery bit, s in either form
+ */
+function signRaw(digest: string, highS: boolean): Uint8Array {
+    const signature = signingKey.sign(digest);
+    const s = highS ? SECP256K1_ORDER - BigInt(signature.s) : BigInt(signature.s);
+    return ethers.getBytes(ethers.concat([signature.r, ethers.toBeHex(s, 32)]));
+}
+
+describe("toEthereumSignature", () => {
+    it("recovers the signer for both recovery bits", () => {
+        const parities = new Set<number>();
+        for (let index = 0; index < 16 && parities.size < 2; index++) {
+            const digest = ethers.id(`message ${index}`);
+            const signature = toEthereumSignature(digest, signRaw(digest, false), address);
+            assert.equal(ethers.recoverAddress(digest, signature), address);
+            parities.add(signature.yParity);
+        }
+        assert.deepEqual(Array.from(parities).sort(), [0, 1]);
+    });
+
+    it("normalizes high s to the low-s form", () => {
+        const digest = ethers.id("high s");
+        const signature = toEthereumSignature(digest, signRaw(digest, true), address);
+        assert.ok(BigInt(signature.s) <= SECP256K1_ORDER / 2n);
+        assert.equal(signature.s, signingKey.sign(digest).s);
+        assert.equal(ethers.recoverAddress(digest, signature), address);
+    });
+
+    it("accepts a lowercase signer address", () => {
+        const digest = ethers.id("lowercase");
+        const signature = toEthereumSignature(digest, signRaw(digest, false), address.toLowerCase());
+        assert.equal(ethers.recoverAddress(digest, signature), address);
+    });
+
+    it("rejects a signature from another key", () => {
+        const digest = ethers.id("other key");
+        const other = ethers.Wallet.createRandom().address;
+        assert.throws(() => toEthereumSignature(digest, signRaw(digest, false), other), /does not recover/);
+    });
+
+    it("rejects signatures that are not 64 bytes", () => {
+        const digest = ethers.id("length");
+        assert.throws(() => toEthereumSignature(digest, new Uint8Array(65), address), /64-byte/);
+    });
+
+    it("produces a broadcastable EIP-1559 transaction", () => {
+        const tx = ethers.Transaction.from({
+            type: 2,
+            chainId: 534351,
+            nonce: 7,
+            to: "0x9406Cc6185a346906296840746125a0E44976454",
+            value: 10n ** 15n,
+            data: "0x",
+            gasLimit: 21000n,
+            maxFeePerGas: 2000000000n,
+            maxPriorityFeePerGas: 1000000000n
+        });
+        tx.signature = toEthereumSignature(tx.unsignedHash, signRaw(tx.unsignedHash, true), address);
+
+        const parsed = ethers.Transaction.from(tx.serialized);
+        assert.equal(parsed.from, address);
+        assert.equal(parsed.hash, tx.hash);
+    });
+});
+
+describe("getDerivationPath", () => {
+    it("derives one key per user under the service prefix", () => {
+        assert.deepEqual(getDerivationPath("user-a"), getDerivationPath("user-a"));
+        assert.notDeepEqual(getDerivationPath("user-a"), getDerivationPath("user-b"));
+        assert.equal(ethers.toUtf8String(getDerivationPath("user-a")[0]), "chatterpay-evm");
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { ethers, JsonRpcProvider } from 'ethers';
+import type { JsonRpcPayload, JsonRpcResult } from 'ethers';
+import { ETH_COIN_TYPE, getCoinType, getRegistryResolver, getReverseName, resolveAddressRecord, resolveNameRecord } from '../../src/evm_service/name_resolution';
+
+const REGISTRY = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+const RESOLVER = "0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63";
+const MAINNET_ADDRESS = "0x9406Cc6185a346906296840746125a0E44976454";
+const SCROLL_ADDRESS = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+const SCROLL_CHAIN_ID = 534352;
+
+const contracts = new ethers.Interface([
+    "function resolver(bytes32 node) view returns (address)",
+    "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+    "function addr(bytes32 node) view returns (address)",
+    "function addr(bytes32 node, uint256 coinType) view returns (bytes)",
+    "function name(bytes32 node) view returns (string)"
+]);
+
+/** Chain answering eth_call from a registry and a resolver holding address records by coin type */
+class StubProvider extends JsonRpcProvider {
+    readonly calls: ethers.TransactionDescription[] = [];
+
+    constructor(private readonly records: Map<bigint, string>, private readonly resolver = RESOLVER, private readonly reverseName = "") {
+        super(undefined, 1, { staticNetwork: true });
+    }
+
+    async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+        const requests = Array.isArray(payload) ? payload : [payload];
+        return requests.map(request => ({ id: request.id, result: this.answer(request) }));
+    }
+
+    private answer(request: JsonRpcPayload): string {
+        assert.equal(request.method, "eth_call");
+        const [{ to, data }] = request.params as Array<{ to: string; data: string }>;
+        const call = contracts.parseTransaction({ data })!;
+        this.calls.push(call);
+
+        if (ethers.getAddress(to) === REGISTRY) {
+            return contracts.encodeFunctionResult(call.fragment, [this.resolver]);
+        }
+        switch (call.signature) {
+            case "supportsInterface(bytes4)":
+                return contracts.encodeFunctionResult(call.fragment, [false]);
+            case "name(bytes32)":
+                return contracts.encodeFunctionResult(call.fragment, [this.reverseName]);
+            case "addr(bytes32)":
+                return contracts.encodeFunctionResult(call.fragment, [this.records.get(ETH_COIN_TYPE) ?? ethers.ZeroAddress]);
+            default:
+                return contracts.encodeFunctionResult(call.fragment, [this.records.get(call.args[1]) ?? "0x"]);
+        }
+    }
+}
+
+describe("getCoinType", () => {
+    it("uses the ETH coin type on mainnet", () => {
+        assert.equal(getCoinType(1), 60n);
+    });
+
+    it("flags other chain IDs per ENSIP-11", () => {
+        assert.equal(getCoinType(SCROLL_CHAIN_ID), 0x80000000n + BigInt(SCROLL_CHAIN_ID));
+        assert.equal(getCoinType(42161), 2147525809n);
+    });
+
+    it("rejects chain IDs without a coin type", () => {
+        assert.throws(() => getCoinType(0), /no ENSIP-11 coin type/);
+        assert.throws(() => getCoinType(0x80000000), /no ENSIP-11 coin type/);
+    });
+});
+
+describe("resolveAddressRecord", () => {
+    const records = new Map([
+        [ETH_COIN_TYPE, MAINNET_ADDRESS],
+        [getCoinType(SCROLL_CHAIN_ID), SCROLL_ADDRESS.toLowerCase()]
+    ]);
+
+    it("reads the mainnet ETH record", async () => {
+        const provider = new StubProvider(records);
+        const resolver = await getRegistryResolver(provider, REGISTRY, "alice.eth");
+        assert.equal(await resolveAddressRecord(resolver, getCoinType(1)), MAINNET_ADDRESS);
+        provider.destroy();
+    });
+
+    it("reads the chain's own record on L2s", async () => {
+        const provider = new StubProvider(records);
+        const resolver = await getRegistryResolver(provider, REGISTRY, "alice.eth");
+        assert.equal(await resolveAddressRecord(resolver, getCoinType(SCROLL_CHAIN_ID)), SCROLL_ADDRESS);
+
+        const lookup = provider.calls.find(call => call.signature === "addr(bytes32,uint256)")!;
+        assert.equal(lookup.args[0], ethers.namehash("alice.eth"));
+        assert.equal(lookup.args[1], getCoinType(SCROLL_CHAIN_ID));
+        provider.destroy();
+    });
+
+    it("does not fall back to the ETH record", async () => {
+        const provider = new StubProvider(new Map([[ETH_COIN_TYPE, MAINNET_ADDRESS]]));
+        const resolver = await getRegistryResolver(provider, REGISTRY, "alice.eth");
+        assert.equal(await resolveAddressRecord(resolver, getCoinType(SCROLL_CHAIN_ID)), null);
+        provider.destroy();
+    });
+
+    it("returns null for names without a resolver", async () => {
+        const provider = new StubProvider(records, ethers.ZeroAddress);
+        const resolver = await getRegistryResolver(provider, REGISTRY, "nobody.eth");
+        assert.equal(resolver, null);
+        assert.equal(await resolveAddressRecord(resolver, ETH_COIN_TYPE), null);
+        provider.destroy();
+    });
+});
+
+describe("resolveNameRecord", () => {
+    it("reads the name of an address's reverse node", async () => {
+        const provider = new StubProvider(new Map(), RESOLVER, "alice.eth");
+        const resolver = await getRegistryResolver(provider, REGISTRY, getReverseName(SCROLL_ADDRESS));
+        assert.equal(await resolveNameRecord(resolver), "alice.eth");
+
+        const lookup = provider.calls.find(call => call.signature === "name(bytes32)")!;
+        assert.equal(lookup.args[0], ethers.namehash(`${SCROLL_ADDRESS.slice(2).toLowerCase()}.addr.reverse`));
+        provider.destroy();
+    });
+
+    it("returns an empty name for addresses without a resolver", async () => {
+        const provider = new StubProvider(new Map(), ethers.ZeroAddress);
+        const resolver = await getRegistryResolver(provider, REGISTRY, getReverseName(SCROLL_ADDRESS));
+        assert.equal(await resolveNameRecord(resolver), "");
+        provider.destroy();
+    });
+});
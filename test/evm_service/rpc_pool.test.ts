@@ -0,0 +1,168 @@
+import { afterEach, describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { JsonRpcProvider } from 'ethers';
+import type { JsonRpcPayload, JsonRpcResult } from 'ethers';
+import { createRpcEndpoint, PooledRpcProvider, rpcEndpoints, rpcQuorums } from '../../src/evm_service/rpc_pool';
+
+const CHAIN_ID = 31337;
+
+type Handler = (request: JsonRpcPayload) => unknown;
+
+/** Endpoint provider answering each request with a handler; a thrown error fails the whole request */
+class StubProvider extends JsonRpcProvider {
+    readonly requests: JsonRpcPayload[] = [];
+
+    constructor(private readonly handler: Handler) {
+        super(undefined, CHAIN_ID, { staticNetwork: true });
+    }
+
+    async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+        const requests = Array.isArray(payload) ? payload : [payload];
+        this.requests.push(...requests);
+        return requests.map(request => {
+            const answer = this.handler(request);
+            return answer instanceof Error
+                ? { id: request.id, error: { code: -32000, message: answer.message } } as unknown as JsonRpcResult
+                : { id: request.id, result: answer };
+        });
+    }
+}
+
+/** Stub endpoints for the test chain */
+function useEndpoints(...handlers: Handler[]): StubProvider[] {
+    const stubs = handlers.map(handler => new StubProvider(handler));
+    rpcEndpoints.set(CHAIN_ID, stubs.map((stub, index) => ({ ...createRpcEndpoint(CHAIN_ID, `https://rpc${index}.test`), provider: stub })));
+    return stubs;
+}
+
+const receipt = {
+    transactionHash: "0x" + "11".repeat(32),
+    blockHash: "0x" + "22".repeat(32),
+    blockNumber: "0x10",
+    status: "0x1"
+};
+
+const unreachable: Handler = () => {
+    throw new Error("connection refused");
+};
+
+describe("PooledRpcProvider", () => {
+    let provider: PooledRpcProvider;
+
+    afterEach(() => {
+        provider?.destroy();
+        rpcEndpoints.delete(CHAIN_ID);
+        rpcQuorums.delete(CHAIN_ID);
+    });
+
+    it("fails over to the next endpoint", async () => {
+        const [, healthy] = useEndpoints(unreachable, () => "0x2a");
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        assert.equal(await provider.send("eth_blockNumber", []), "0x2a");
+        assert.equal(healthy.requests.length, 1);
+    });
+
+    it("fails over on endpoint-level JSON-RPC errors", async () => {
+        const limited = new StubProvider(() => "0x1");
+        limited._send = async (payload: JsonRpcPayload | Array<JsonRpcPayload>) =>
+            [{ id: (payload as JsonRpcPayload).id, error: { code: -32005, message: "rate limited" } } as unknown as JsonRpcResult];
+        const healthy = new StubProvider(() => "0x2a");
+        rpcEndpoints.set(CHAIN_ID, [
+            { ...createRpcEndpoint(CHAIN_ID, "https://limited.test"), provider: limited },
+            { ...createRpcEndpoint(CHAIN_ID, "https://healthy.test"), provider: healthy }
+        ]);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        assert.equal(await provider.send("eth_blockNumber", []), "0x2a");
+        assert.equal(rpcEndpoints.get(CHAIN_ID)![0].failures, 1);
+    });
+
+    it("does not fail over on reverts reported as internal errors", async () => {
+        const reverting = new StubProvider(() => "0x1");
+        reverting._send = async (payload: JsonRpcPayload | Array<JsonRpcPayload>) =>
+            [{ id: (payload as JsonRpcPayload).id, error: { code: -32603, message: "execution reverted: not owner" } } as unknown as JsonRpcResult];
+        const healthy = new StubProvider(() => "0x2a");
+        rpcEndpoints.set(CHAIN_ID, [
+            { ...createRpcEndpoint(CHAIN_ID, "https://reverting.test"), provider: reverting },
+            { ...createRpcEndpoint(CHAIN_ID, "https://healthy.test"), provider: healthy }
+        ]);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        await assert.rejects(provider.send("eth_call", [{ to: "0x" + "00".repeat(20), data: "0x" }, "latest"]));
+        assert.equal(healthy.requests.length, 0);
+        assert.equal(rpcEndpoints.get(CHAIN_ID)![0].failures, 0);
+    });
+
+    it("prefers healthy endpoints once one fails", async () => {
+        const [failing, healthy] = useEndpoints(unreachable, () => "0x2a");
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            assert.equal(await provider.send("eth_blockNumber", []), "0x2a");
+        }
+        assert.equal(failing.requests.length, 1);
+        assert.equal(healthy.requests.length, 5);
+    });
+
+    it("opens the circuit of an endpoint after consecutive failures", async () => {
+        useEndpoints(unreachable);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await assert.rejects(provider.send("eth_blockNumber", []));
+        }
+        assert.ok(rpcEndpoints.get(CHAIN_ID)![0].circuitOpenUntil > Date.now());
+    });
+
+    it("reports an error when every endpoint fails", async () => {
+        useEndpoints(unreachable, unreachable);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        await assert.rejects(provider.send("eth_blockNumber", []), /All RPC endpoints failed/);
+    });
+
+    it("accepts receipts that agree on block hash, status and hash", async () => {
+        useEndpoints(
+            () => ({ ...receipt, l1Fee: "0x1" }),
+            () => ({ ...receipt, logsBloom: "0x00" }),
+            unreachable
+        );
+        rpcQuorums.set(CHAIN_ID, 2);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        const result = await provider.send("eth_getTransactionReceipt", [receipt.transactionHash]);
+        assert.equal(result.blockHash, receipt.blockHash);
+    });
+
+    it("rejects receipts from different blocks", async () => {
+        useEndpoints(
+            () => receipt,
+            () => ({ ...receipt, blockHash: "0x" + "33".repeat(32) })
+        );
+        rpcQuorums.set(CHAIN_ID, 2);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        await assert.rejects(provider.send("eth_getTransactionReceipt", [receipt.transactionHash]), /quorum of 2 not reached/);
+    });
+
+    it("applies the quorum to receipts inside a batch", async () => {
+        const handler: Handler = request => request.method === "eth_getTransactionReceipt" ? receipt : "0x2a";
+        const stubs = useEndpoints(handler, handler);
+        rpcQuorums.set(CHAIN_ID, 2);
+        provider = new PooledRpcProvider(CHAIN_ID);
+
+        // Concurrent calls are sent as one batch by ethers
+        const [blockNumber, agreed] = await Promise.all([
+            provider.send("eth_blockNumber", []),
+            provider.send("eth_getTransactionReceipt", [receipt.transactionHash])
+        ]);
+        assert.equal(blockNumber, "0x2a");
+        assert.equal(agreed.transactionHash, receipt.transactionHash);
+
+        const receiptReads = stubs.flatMap(stub => stub.requests).filter(request => request.method === "eth_getTransactionReceipt");
+        const blockNumberReads = stubs.flatMap(stub => stub.requests).filter(request => request.method === "eth_blockNumber");
+        assert.equal(receiptReads.length, 2);
+        assert.equal(blockNumberReads.length, 1);
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { ethers } from 'ethers';
+import { DUMMY_SIGNATURE, encodeHandleOps, encodePaymasterAndData, getPaymasterHash, getUserOperationHash, userOperationToCandid, userOperationToRpc } from '../../src/evm_service/user_operation';
+import type { UserOp } from '../../src/evm_service/user_operation';
+
+const ENTRY_POINT = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+const CHAIN_ID = 534351;
+const PAYMASTER = "0x00000f79B7FaF42EEBAdbA19aCc07cD08Af44789";
+
+const userOperation: UserOp = {
+    sender: "0x9406Cc6185a346906296840746125a0E44976454",
+    nonce: 3n,
+    initCode: "0x",
+    callData: "0xb61d27f6",
+    callGasLimit: 100000n,
+    verificationGasLimit: 150000n,
+    preVerificationGas: 45000n,
+    maxFeePerGas: 2000000000n,
+    maxPriorityFeePerGas: 1000000000n,
+    paymasterAndData: "0x",
+    signature: "0x"
+};
+
+describe("getUserOperationHash", () => {
+    it("does not depend on the signature", () => {
+        assert.equal(
+            getUserOperationHash({ ...userOperation, signature: "0x1234" }, ENTRY_POINT, CHAIN_ID),
+            getUserOperationHash(userOperation, ENTRY_POINT, CHAIN_ID)
+        );
+    });
+
+    it("binds the operation to its EntryPoint and chain", () => {
+        const hash = getUserOperationHash(userOperation, ENTRY_POINT, CHAIN_ID);
+        assert.notEqual(getUserOperationHash(userOperation, ethers.ZeroAddress, CHAIN_ID), hash);
+        assert.notEqual(getUserOperationHash(userOperation, ENTRY_POINT, 1), hash);
+    });
+
+    it("covers every signed field", () => {
+        const hash = getUserOperationHash(userOperation, ENTRY_POINT, CHAIN_ID);
+        const changes: Partial<UserOp>[] = [
+            { nonce: 4n },
+            { initCode: "0x01" },
+            { callData: "0x" },
+            { callGasLimit: 1n },
+            { verificationGasLimit: 1n },
+            { preVerificationGas: 1n },
+            { maxFeePerGas: 1n },
+            { maxPriorityFeePerGas: 1n },
+            { paymasterAndData: "0x01" }
+        ];
+        for (const change of changes) {
+            assert.notEqual(getUserOperationHash({ ...userOperation, ...change }, ENTRY_POINT, CHAIN_ID), hash, JSON.stringify(Object.keys(change)));
+        }
+    });
+});
+
+describe("UserOperation serialization", () => {
+    it("uses hex quantities for bundler RPC", () => {
+        const rpc = userOperationToRpc(userOperation);
+        assert.equal(rpc.nonce, "0x3");
+        assert.equal(rpc.callGasLimit, "0x186a0");
+        assert.equal(rpc.maxFeePerGas, "0x77359400");
+        assert.equal(rpc.callData, userOperation.callData);
+    });
+
+    it("uses decimal strings for Candid", () => {
+        const candid = userOperationToCandid(userOperation);
+        assert.equal(candid.nonce, "3");
+        assert.equal(candid.preVerificationGas, "45000");
+        assert.equal(candid.sender, userOperation.sender);
+    });
+});
+
+describe("getPaymasterHash", () => {
+    it("does not depend on paymasterAndData or the signature", () => {
+        assert.equal(
+            getPaymasterHash({ ...userOperation, paymasterAndData: "0x1234", signature: "0x1234" }, PAYMASTER, CHAIN_ID, 100, 0),
+            getPaymasterHash(userOperation, PAYMASTER, CHAIN_ID, 100, 0)
+        );
+    });
+
+    it("binds the approval to its paymaster, chain and validity window", () => {
+        const hash = getPaymasterHash(userOperation, PAYMASTER, CHAIN_ID, 100, 0);
+        assert.notEqual(getPaymasterHash(userOperation, ethers.ZeroAddress, CHAIN_ID, 100, 0), hash);
+        assert.notEqual(getPaymasterHash(userOperation, PAYMASTER, 1, 100, 0), hash);
+        assert.notEqual(getPaymasterHash(userOperation, PAYMASTER, CHAIN_ID, 101, 0), hash);
+        assert.notEqual(getPaymasterHash(userOperation, PAYMASTER, CHAIN_ID, 100, 1), hash);
+        assert.notEqual(getPaymasterHash({ ...userOperation, callGasLimit: 1n }, PAYMASTER, CHAIN_ID, 100, 0), hash);
+    });
+});
+
+describe("encodePaymasterAndData", () => {
+    it("packs the paymaster, validity window and signature", () => {
+        const signer = ethers.Wallet.createRandom();
+        const hash = getPaymasterHash(userOperation, PAYMASTER, CHAIN_ID, 1700000000, 0);
+        const signature = signer.signingKey.sign(ethers.hashMessage(ethers.getBytes(hash))).serialized;
+        const data = encodePaymasterAndData(PAYMASTER, 1700000000, 0, signature);
+
+        assert.equal(ethers.dataLength(data), 20 + 64 + 65);
+        assert.equal(ethers.getAddress(ethers.dataSlice(data, 0, 20)), PAYMASTER);
+        const [validUntil, validAfter] = ethers.AbiCoder.defaultAbiCoder().decode(["uint48", "uint48"], ethers.dataSlice(data, 20, 84));
+        assert.equal(validUntil, 1700000000n);
+        assert.equal(validAfter, 0n);
+        assert.equal(ethers.verifyMessage(ethers.getBytes(hash), ethers.dataSlice(data, 84)), signer.address);
+    });
+
+    it("uses a well-formed placeholder signature by default", () => {
+        assert.equal(ethers.dataSlice(encodePaymasterAndData(PAYMASTER, 100, 0), 84), DUMMY_SIGNATURE);
+    });
+
+    it("rejects signatures of the wrong length", () => {
+        assert.throws(() => encodePaymasterAndData(PAYMASTER, 100, 0, "0x1234"), /65 bytes/);
+    });
+});
+
+describe("encodeHandleOps", () => {
+    it("encodes the EntryPoint v0.6 bundle call with the operation's signature", () => {
+        const signed = { ...userOperation, signature: DUMMY_SIGNATURE };
+        const data = encodeHandleOps([signed], ENTRY_POINT);
+        assert.equal(ethers.dataSlice(data, 0, 4), "0x1fad948c");
+        assert.ok(data.toLowerCase().includes(DUMMY_SIGNATURE.slice(2).toLowerCase()));
+        assert.ok(ethers.dataLength(data) > ethers.dataLength(encodeHandleOps([userOperation], ENTRY_POINT)));
+    });
+});
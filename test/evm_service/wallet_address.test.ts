@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { ethers } from 'ethers';
+import { buildAccountInitCode, computeWalletAddress, getAccountSalt } from '../../src/evm_service/wallet_address';
+
+const FACTORY = "0x9406Cc6185a346906296840746125a0E44976454";
+const IMPLEMENTATION = "0x8ABB13360b87Be5EEb1B98647A016adD927a136c";
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const proxy = {
+    creationCode: "0x608060405234801561001057600080fd5b50",
+    initializer: "function initialize(address owner)",
+    initializerArgs: []
+};
+
+/** CREATE2 address per EIP-1014, computed without getCreate2Address */
+function create2(deployer: string, salt: string, initCode: string): string {
+    const hash = ethers.keccak256(ethers.concat(["0xff", deployer, salt, ethers.keccak256(initCode)]));
+    return ethers.getAddress(ethers.dataSlice(hash, 12));
+}
+
+describe("getAccountSalt", () => {
+    it("uses the account salt as bytes32 for salted factories", () => {
+        assert.equal(getAccountSalt("salt", OWNER, 1n), ethers.zeroPadValue("0x01", 32));
+    });
+
+    it("hashes the packed owner for owner-salted factories", () => {
+        assert.equal(getAccountSalt("owner", OWNER, 0n), ethers.keccak256(OWNER));
+    });
+
+    it("rejects a salt for owner-salted factories", () => {
+        assert.throws(() => getAccountSalt("owner", OWNER, 5n), /salt must be 0/);
+    });
+});
+
+describe("buildAccountInitCode", () => {
+    it("appends the implementation and initializer calldata to the creation code", () => {
+        const initCode = buildAccountInitCode(proxy, IMPLEMENTATION, OWNER);
+        assert.ok(initCode.startsWith(proxy.creationCode));
+
+        const [implementation, data] = ethers.AbiCoder.defaultAbiCoder().decode(
+            ["address", "bytes"],
+            ethers.dataSlice(initCode, ethers.dataLength(proxy.creationCode))
+        );
+        assert.equal(implementation, IMPLEMENTATION);
+        const initializer = new ethers.Interface([proxy.initializer]);
+        assert.deepEqual(initializer.decodeFunctionData("initialize", data).toArray(), [OWNER]);
+    });
+
+    it("passes the configured arguments after the owner", () => {
+        const entryPoint = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+        const initCode = buildAccountInitCode(
+            { ...proxy, initializer: "function initialize(address owner, address entryPoint)", initializerArgs: [entryPoint] },
+            IMPLEMENTATION,
+            OWNER
+        );
+        const [, data] = ethers.AbiCoder.defaultAbiCoder().decode(
+            ["address", "bytes"],
+            ethers.dataSlice(initCode, ethers.dataLength(proxy.creationCode))
+        );
+        const initializer = new ethers.Interface(["function initialize(address owner, address entryPoint)"]);
+        assert.deepEqual(initializer.decodeFunctionData("initialize", data).toArray(), [OWNER, entryPoint]);
+    });
+
+    it("rejects an initializer that does not take the owner and the configured arguments", () => {
+        assert.throws(() => buildAccountInitCode({ ...proxy, initializerArgs: [1] }, IMPLEMENTATION, OWNER), /must take the owner/);
+        assert.throws(() => buildAccountInitCode({ ...proxy, initializer: "function initialize(uint256 id)" }, IMPLEMENTATION, OWNER), /must take the owner/);
+    });
+});
+
+describe("computeWalletAddress", () => {
+    it("matches EIP-1014 for salted factories", () => {
+        const expected = create2(FACTORY, ethers.zeroPadValue("0x2a", 32), buildAccountInitCode(proxy, IMPLEMENTATION, OWNER));
+        assert.equal(computeWalletAddress(FACTORY, proxy, IMPLEMENTATION, OWNER, 42n, "salt"), expected);
+    });
+
+    it("matches EIP-1014 for owner-salted factories", () => {
+        const expected = create2(FACTORY, ethers.keccak256(OWNER), buildAccountInitCode(proxy, IMPLEMENTATION, OWNER));
+        assert.equal(computeWalletAddress(FACTORY, proxy, IMPLEMENTATION, OWNER, 0n, "owner"), expected);
+    });
+
+    it("gives each salt and owner its own address", () => {
+        const first = computeWalletAddress(FACTORY, proxy, IMPLEMENTATION, OWNER, 0n, "salt");
+        assert.notEqual(computeWalletAddress(FACTORY, proxy, IMPLEMENTATION, OWNER, 1n, "salt"), first);
+        assert.notEqual(computeWalletAddress(FACTORY, proxy, IMPLEMENTATION, FACTORY, 0n, "salt"), first);
+    });
+});